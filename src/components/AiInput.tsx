@@ -1,6 +1,8 @@
-import React from 'react'
+import React, { useState, useRef, useEffect } from 'react'
 import { useAiInput } from '../hooks/useAiInput'
-import type { AiInputProps, AiInputRenderProps } from '../types'
+import { Waveform } from './Waveform'
+import { getMentionToken } from '../utils/mentions'
+import type { AiInputProps, AiInputRenderProps, AiInputAttachment, AiInputReference, MentionItem, SlashCommand } from '../types'
 
 /**
  * Format milliseconds to MM:SS display
@@ -13,20 +15,43 @@ function formatDuration(ms: number): string {
 }
 
 /**
- * Waveform visualization component with smooth animations
+ * Static waveform (e.g. of a finished recording) with smooth animations.
+ * With `progress`, bars after the playback position are dimmed;
+ * with `onSeek`, clicking the waveform reports the clicked position (0-1).
  */
-function Waveform({ levels, className = '' }: { levels: number[]; className?: string }) {
+function StaticWaveform({
+    levels,
+    progress,
+    onSeek,
+    className = '',
+}: {
+    levels: number[]
+    progress?: number
+    onSeek?: (fraction: number) => void
+    className?: string
+}) {
     const bars = levels.length > 0 ? levels : Array(16).fill(0.15)
 
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!onSeek) return
+        const rect = e.currentTarget.getBoundingClientRect()
+        onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)))
+    }
+
     return (
-        <div className={`flex items-center justify-center gap-1 h-10 ${className}`}>
+        <div
+            className={`flex items-center justify-center gap-1 h-10 ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+            onClick={handleClick}
+        >
             {bars.map((level, i) => (
                 <div
                     key={i}
                     className="w-1.5 bg-gradient-to-t from-amber-600 to-amber-400 rounded-full transition-all duration-100 ease-out"
                     style={{
                         height: `${Math.max(6, level * 40)}px`,
-                        opacity: 0.6 + level * 0.4,
+                        opacity: progress !== undefined && i / bars.length >= progress
+                            ? 0.3
+                            : 0.6 + level * 0.4,
                     }}
                 />
             ))}
@@ -79,6 +104,40 @@ function StopIcon({ className = '' }: { className?: string }) {
     )
 }
 
+/**
+ * Pause icon
+ */
+function PauseIcon({ className = '' }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 256 256" fill="currentColor">
+            <rect x="64" y="48" width="40" height="160" rx="8" />
+            <rect x="152" y="48" width="40" height="160" rx="8" />
+        </svg>
+    )
+}
+
+/**
+ * Play icon
+ */
+function PlayIcon({ className = '' }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 256 256" fill="currentColor">
+            <path d="M72,39.88V216.12a8,8,0,0,0,12.15,6.69l144.08-88.12a7.82,7.82,0,0,0,0-13.38L84.15,33.19A8,8,0,0,0,72,39.88Z" />
+        </svg>
+    )
+}
+
+/**
+ * Caret down icon
+ */
+function CaretDownIcon({ className = '' }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 256 256" fill="currentColor">
+            <path d="M213.66,101.66l-80,80a8,8,0,0,1-11.32,0l-80-80A8,8,0,0,1,53.66,90.34L128,164.69l74.34-74.35a8,8,0,0,1,11.32,11.32Z" />
+        </svg>
+    )
+}
+
 /**
  * X icon
  */
@@ -90,6 +149,28 @@ function XIcon({ className = '' }: { className?: string }) {
     )
 }
 
+/**
+ * Paperclip icon
+ */
+function PaperclipIcon({ className = '' }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 256 256" fill="currentColor">
+            <path d="M209.66,122.34a8,8,0,0,1,0,11.32l-82.05,82a56,56,0,0,1-79.2-79.21L147.67,35.73a40,40,0,1,1,56.61,56.55L105,193A24,24,0,1,1,71,159L154.3,74.38A8,8,0,1,1,165.7,85.6L82.39,170.31a8,8,0,1,0,11.27,11.36L192.93,81A24,24,0,1,0,159,47L59.76,147.68a40,40,0,1,0,56.53,56.62l82.06-82A8,8,0,0,1,209.66,122.34Z" />
+        </svg>
+    )
+}
+
+/**
+ * File icon
+ */
+function FileIcon({ className = '' }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 256 256" fill="currentColor">
+            <path d="M213.66,82.34l-56-56A8,8,0,0,0,152,24H56A16,16,0,0,0,40,40V216a16,16,0,0,0,16,16H200a16,16,0,0,0,16-16V88A8,8,0,0,0,213.66,82.34ZM160,51.31,188.69,80H160ZM200,216H56V40h88V88a8,8,0,0,0,8,8h48V216Z" />
+        </svg>
+    )
+}
+
 /**
  * Spinner
  */
@@ -102,6 +183,229 @@ function Spinner({ className = '' }: { className?: string }) {
     )
 }
 
+/**
+ * Removable attachment chip with image thumbnail
+ */
+function AttachmentChip({
+    attachment,
+    onRemove,
+    disabled,
+}: {
+    attachment: AiInputAttachment
+    onRemove: (id: string) => void
+    disabled?: boolean
+}) {
+    return (
+        <div className="ai-input-chip flex items-center gap-2 pl-1 pr-1.5 py-1 rounded-lg text-sm max-w-[200px]">
+            {attachment.previewUrl ? (
+                <img
+                    src={attachment.previewUrl}
+                    alt={attachment.name}
+                    className="h-8 w-8 rounded object-cover shrink-0"
+                />
+            ) : (
+                <FileIcon className="ai-input-text-muted h-5 w-5 ml-1 shrink-0" />
+            )}
+            <span className="truncate">{attachment.name}</span>
+            <button
+                onClick={() => onRemove(attachment.id)}
+                disabled={disabled}
+                className="ai-input-btn-secondary p-0.5 rounded shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label={`Remove ${attachment.name}`}
+            >
+                <XIcon className="h-3.5 w-3.5" />
+            </button>
+        </div>
+    )
+}
+
+/**
+ * Removable chip for an entity mentioned in the text
+ */
+function ReferenceChip({
+    reference,
+    onRemove,
+    disabled,
+}: {
+    reference: AiInputReference
+    onRemove: (reference: AiInputReference) => void
+    disabled?: boolean
+}) {
+    return (
+        <div className="ai-input-chip flex items-center gap-1 pl-2 pr-1.5 py-1 rounded-lg text-sm max-w-[200px]">
+            <span className="ai-input-text-muted shrink-0">{reference.trigger}</span>
+            <span className="truncate">{reference.label}</span>
+            <button
+                onClick={() => onRemove(reference)}
+                disabled={disabled}
+                className="ai-input-btn-secondary p-0.5 rounded shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label={`Remove ${reference.label}`}
+            >
+                <XIcon className="h-3.5 w-3.5" />
+            </button>
+        </div>
+    )
+}
+
+/**
+ * Microphone picker menu, shown when more than one microphone is available
+ */
+function DevicePicker({
+    devices,
+    selectedDeviceId,
+    onSelect,
+    disabled,
+}: {
+    devices: MediaDeviceInfo[]
+    selectedDeviceId: string | null
+    onSelect: (deviceId: string | null) => void
+    disabled: boolean
+}) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    // Close when clicking outside
+    useEffect(() => {
+        if (!isOpen) return
+        const handlePointerDown = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handlePointerDown)
+        return () => document.removeEventListener('mousedown', handlePointerDown)
+    }, [isOpen])
+
+    const handleSelect = (deviceId: string | null) => {
+        onSelect(deviceId)
+        setIsOpen(false)
+    }
+
+    const options = [
+        { id: null, label: 'Default microphone' },
+        ...devices
+            .filter((device) => device.deviceId && device.deviceId !== 'default')
+            .map((device, i) => ({ id: device.deviceId, label: device.label || `Microphone ${i + 1}` })),
+    ]
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen((open) => !open)}
+                disabled={disabled}
+                className="ai-input-btn-secondary p-1 rounded-lg transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Choose microphone"
+                aria-haspopup="listbox"
+                aria-expanded={isOpen}
+            >
+                <CaretDownIcon className="h-3.5 w-3.5" />
+            </button>
+            {isOpen && (
+                <ul
+                    role="listbox"
+                    className="ai-input-menu absolute bottom-full right-0 mb-2 min-w-[200px] max-w-[280px] py-1 border rounded-lg text-sm z-10"
+                >
+                    {options.map((option) => (
+                        <li
+                            key={option.id ?? 'default'}
+                            role="option"
+                            aria-selected={option.id === selectedDeviceId}
+                            onClick={() => handleSelect(option.id)}
+                            className={`ai-input-menu-item px-3 py-1.5 cursor-pointer truncate ${option.id === selectedDeviceId ? 'ai-input-menu-item-active' : ''}`}
+                        >
+                            {option.label}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Command name with its arguments, e.g. `/translate <language> [tone]`
+ */
+function CommandSignature({ command }: { command: SlashCommand }) {
+    return (
+        <>
+            <span className="font-medium">/{command.name}</span>
+            {command.args?.map((arg) => (
+                <span key={arg.name} className="ai-input-text-muted">
+                    {' '}{arg.required ? `<${arg.name}>` : `[${arg.name}]`}
+                </span>
+            ))}
+        </>
+    )
+}
+
+/**
+ * Reverse search through sent prompts (Ctrl+R). Typing finds the newest
+ * matching prompt; Ctrl+R or ArrowUp moves to older matches, Enter recalls
+ * the match and Escape closes the search.
+ */
+function HistorySearch({
+    history,
+    searchHistory,
+    onSelect,
+    onClose,
+}: {
+    history: string[]
+    searchHistory: (query: string, before?: number) => number | null
+    onSelect: (index: number) => void
+    onClose: () => void
+}) {
+    const [query, setQuery] = useState('')
+    const [match, setMatch] = useState<number | null>(null)
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setQuery(e.target.value)
+        setMatch(searchHistory(e.target.value))
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            e.preventDefault()
+            onClose()
+        } else if (e.key === 'Enter') {
+            e.preventDefault()
+            if (match !== null) {
+                onSelect(match)
+            } else {
+                onClose()
+            }
+        } else if (e.key === 'ArrowUp' || (e.ctrlKey && e.key.toLowerCase() === 'r')) {
+            e.preventDefault()
+            // Stay on the oldest match when there are no more
+            const older = match !== null ? searchHistory(query, match) : null
+            if (older !== null) {
+                setMatch(older)
+            }
+        }
+    }
+
+    return (
+        <div className="ai-input-chip mx-3 mt-3 px-3 py-2 rounded-lg text-sm">
+            <div className="flex items-center gap-2">
+                <span className="ai-input-text-muted shrink-0">History search:</span>
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={handleChange}
+                    onKeyDown={handleKeyDown}
+                    onBlur={onClose}
+                    aria-label="Search prompt history"
+                    className="flex-1 min-w-0 bg-transparent focus:outline-none"
+                />
+            </div>
+            {query && (
+                <div className={`truncate pt-1 ${match === null ? 'ai-input-text-muted' : ''}`}>
+                    {match !== null ? history[match] : 'No matching prompt'}
+                </div>
+            )}
+        </div>
+    )
+}
+
 /**
  * Default UI - uses CSS variables for automatic theme detection
  * The CSS variables are defined in styles.css and automatically switch
@@ -117,21 +421,196 @@ function DefaultUI({
     isRecording,
     startRecording,
     stopRecording,
+    isPaused,
+    canPauseRecording,
+    pauseRecording,
+    resumeRecording,
     cancelRecording,
     recordingDuration,
-    audioLevels,
+    recordedAudioDuration,
+    recordedWaveform,
+    isPlayingRecording,
+    playbackPosition,
+    playRecording,
+    pausePlayback,
+    seekPlayback,
+    sendRecording,
+    discardRecording,
+    micPermission,
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    audioLevelsSource,
     cooldownRemaining,
+    canSubmitAudio,
+    cancelRequest,
+    lastPayload,
+    retry,
+    attachments,
+    addFiles,
+    removeAttachment,
+    attachmentConfig,
+    reviewingTranscription,
+    discardTranscription,
+    interimTranscript,
+    history,
+    historyIndex,
+    recallHistory,
+    searchHistory,
+    activeCommand,
+    commandSuggestions,
+    selectCommand,
+    mentionQuery,
+    mentionSuggestions,
+    isSearchingMentions,
+    selectMention,
+    references,
+    removeReference,
+    setCaretPosition,
+    completion,
+    acceptCompletion,
+    dismissCompletion,
     placeholder = 'Ask anything...',
     disabled = false,
 }: AiInputRenderProps & {
     placeholder?: string
     disabled?: boolean
 }) {
-    const isLoading = state === 'loading'
+    const isLoading = state === 'loading' || state === 'streaming'
     const isRateLimited = state === 'rate-limited'
     const hasError = state === 'error'
+    const isCancelled = state === 'cancelled'
+    const isReviewingRecording = state === 'review'
+    const isMicDenied = micPermission === 'denied'
+    const canAttach = attachmentConfig !== null && !disabled && !isLoading && !isRecording
+
+    const [isDragging, setIsDragging] = useState(false)
+    const [isSearchingHistory, setIsSearchingHistory] = useState(false)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const ghostRef = useRef<HTMLDivElement>(null)
+
+    // Fit the height to the text, including text set elsewhere (recalled prompts, transcripts)
+    useEffect(() => {
+        const textarea = textareaRef.current
+        if (!textarea) return
+        textarea.style.height = 'auto'
+        textarea.style.height = `${Math.min(Math.max(textarea.scrollHeight, 56), 200)}px`
+    }, [text])
+
+    const canUseHistory = history.length > 0 && !isRecording && !isReviewingRecording
+
+    // Command suggestions, until dismissed with Escape for the current text
+    const [highlightedCommand, setHighlightedCommand] = useState(0)
+    const [dismissedCommandText, setDismissedCommandText] = useState<string | null>(null)
+    const showCommands = commandSuggestions.length > 0 && dismissedCommandText !== text && !isRecording
+    const highlighted = Math.min(highlightedCommand, commandSuggestions.length - 1)
+
+    // Mention suggestions, until dismissed with Escape for the current text
+    const [highlightedMention, setHighlightedMention] = useState(0)
+    const [dismissedMentionText, setDismissedMentionText] = useState<string | null>(null)
+    const showMentions = mentionQuery !== null && dismissedMentionText !== text && !isRecording
+        && (mentionSuggestions.length > 0 || isSearchingMentions || mentionQuery.query.length > 0)
+    const highlightedItem = Math.min(highlightedMention, mentionSuggestions.length - 1)
+
+    // Start from the best match as the typed name or query changes
+    useEffect(() => {
+        setHighlightedCommand(0)
+        setHighlightedMention(0)
+    }, [text])
+
+    const chooseMention = (item: MentionItem) => {
+        const caret = selectMention(item)
+        if (caret === null) return
+        // Put the caret after the inserted mention once the text is updated
+        requestAnimationFrame(() => textareaRef.current?.setSelectionRange(caret, caret))
+    }
+
+    const closeHistorySearch = () => {
+        setIsSearchingHistory(false)
+        textareaRef.current?.focus()
+    }
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (showMentions) {
+            const count = mentionSuggestions.length
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                if (count > 0) {
+                    setHighlightedMention((highlightedItem + (e.key === 'ArrowDown' ? 1 : -1) + count) % count)
+                }
+                return
+            }
+            if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey && count > 0) {
+                e.preventDefault()
+                chooseMention(mentionSuggestions[highlightedItem])
+                return
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault()
+                setDismissedMentionText(text)
+                return
+            }
+        }
+
+        if (showCommands) {
+            const count = commandSuggestions.length
+            const command = commandSuggestions[highlighted]
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                setHighlightedCommand((highlighted + (e.key === 'ArrowDown' ? 1 : -1) + count) % count)
+                return
+            }
+            // Enter on a fully typed name runs the command instead
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && command !== activeCommand)) {
+                e.preventDefault()
+                selectCommand(command)
+                return
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault()
+                setDismissedCommandText(text)
+                return
+            }
+        }
+
+        // Inline suggestion: Tab accepts, Escape dismisses
+        if (completion && !isSearchingHistory) {
+            if (e.key === 'Tab' && !e.shiftKey) {
+                e.preventDefault()
+                acceptCompletion()
+                return
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault()
+                dismissCompletion()
+                return
+            }
+        }
+
+        if (canUseHistory && e.ctrlKey && e.key.toLowerCase() === 'r') {
+            e.preventDefault()
+            setIsSearchingHistory(true)
+            return
+        }
+
+        // Arrow keys recall history from the first or last line, and move the caret otherwise
+        const isArrow = e.key === 'ArrowUp' || e.key === 'ArrowDown'
+        if (canUseHistory && isArrow && !e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey) {
+            const { selectionStart, selectionEnd, value } = e.currentTarget
+            const isCollapsed = selectionStart === selectionEnd
+            if (e.key === 'ArrowUp' && isCollapsed && !value.slice(0, selectionStart).includes('\n')) {
+                e.preventDefault()
+                recallHistory('previous')
+                return
+            }
+            if (e.key === 'ArrowDown' && isCollapsed && historyIndex !== null && !value.slice(selectionEnd).includes('\n')) {
+                e.preventDefault()
+                recallHistory('next')
+                return
+            }
+        }
+
         if (e.key === 'Enter' && !e.shiftKey && canSubmit && !isRecording) {
             e.preventDefault()
             submit()
@@ -140,8 +619,56 @@ function DefaultUI({
 
     const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         setText(e.target.value)
-        e.target.style.height = 'auto'
-        e.target.style.height = `${Math.min(Math.max(e.target.scrollHeight, 56), 200)}px`
+        setCaretPosition(e.target.selectionStart)
+    }
+
+    // Follow caret moves, which decide the mention being typed and whether to complete
+    const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        setCaretPosition(e.currentTarget.selectionStart)
+    }
+
+    // Keep the suggestion aligned with scrolled text
+    const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+        if (ghostRef.current) {
+            ghostRef.current.scrollTop = e.currentTarget.scrollTop
+        }
+    }
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        if (!canAttach) return
+        const files = Array.from(e.clipboardData.files)
+        if (files.length > 0) {
+            // Pasted files are attached instead of inserting their name as text
+            e.preventDefault()
+            addFiles(files)
+        }
+    }
+
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+        if (!canAttach || !e.dataTransfer.types.includes('Files')) return
+        e.preventDefault()
+        setIsDragging(true)
+    }
+
+    const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+        // Ignore leave events fired when moving over child elements
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+        setIsDragging(false)
+    }
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        if (!canAttach) return
+        e.preventDefault()
+        setIsDragging(false)
+        addFiles(e.dataTransfer.files)
+    }
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) {
+            addFiles(e.target.files)
+        }
+        // Allow selecting the same file again
+        e.target.value = ''
     }
 
     return (
@@ -150,23 +677,166 @@ function DefaultUI({
             <div
                 className={`
                     ai-input-container
-                    border rounded-xl
+                    relative border rounded-xl
                     transition-all duration-300 ease-out
                     ${isRecording ? 'ai-input-recording' : ''}
+                    ${isDragging ? 'ai-input-dragging' : ''}
                     ${disabled ? 'opacity-50' : ''}
                 `}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
             >
-                {/* Text input */}
-                <textarea
-                    value={text}
-                    onChange={handleInput}
-                    onKeyDown={handleKeyDown}
-                    placeholder={isRecording ? 'Listening...' : placeholder}
-                    disabled={disabled || isLoading || isRateLimited}
-                    rows={1}
-                    className="ai-input-textarea w-full px-4 pt-4 pb-2 bg-transparent focus:outline-none disabled:cursor-not-allowed resize-none min-h-[56px] transition-colors duration-200"
-                    style={{ height: '56px' }}
-                />
+                {/* Attachments */}
+                {(attachments.length > 0 || references.length > 0) && (
+                    <div className="flex flex-wrap gap-2 px-3 pt-3">
+                        {attachments.map((attachment) => (
+                            <AttachmentChip
+                                key={attachment.id}
+                                attachment={attachment}
+                                onRemove={removeAttachment}
+                                disabled={disabled || isLoading}
+                            />
+                        ))}
+                        {references.map((reference) => (
+                            <ReferenceChip
+                                key={getMentionToken(reference)}
+                                reference={reference}
+                                onRemove={removeReference}
+                                disabled={disabled || isLoading}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {/* Slash command suggestions */}
+                {showCommands && (
+                    <ul
+                        role="listbox"
+                        aria-label="Commands"
+                        className="ai-input-menu absolute bottom-full left-0 mb-2 w-full max-w-[320px] py-1 border rounded-lg text-sm z-10"
+                    >
+                        {commandSuggestions.map((command, i) => (
+                            <li
+                                key={command.name}
+                                role="option"
+                                aria-selected={i === highlighted}
+                                onMouseDown={(e) => {
+                                    // Keep focus in the textarea
+                                    e.preventDefault()
+                                    selectCommand(command)
+                                }}
+                                onMouseEnter={() => setHighlightedCommand(i)}
+                                className={`ai-input-menu-item px-3 py-1.5 cursor-pointer ${i === highlighted ? 'ai-input-menu-item-highlighted' : ''}`}
+                            >
+                                <div className="truncate">
+                                    <CommandSignature command={command} />
+                                </div>
+                                {command.description && (
+                                    <div className="ai-input-text-muted text-xs truncate">{command.description}</div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Mention suggestions */}
+                {showMentions && mentionQuery && (
+                    <ul
+                        role="listbox"
+                        aria-label="Mentions"
+                        aria-busy={isSearchingMentions}
+                        className="ai-input-menu absolute bottom-full left-0 mb-2 w-full max-w-[320px] py-1 border rounded-lg text-sm z-10"
+                    >
+                        {mentionSuggestions.map((item, i) => (
+                            <li
+                                key={item.id}
+                                role="option"
+                                aria-selected={i === highlightedItem}
+                                onMouseDown={(e) => {
+                                    // Keep focus in the textarea
+                                    e.preventDefault()
+                                    chooseMention(item)
+                                }}
+                                onMouseEnter={() => setHighlightedMention(i)}
+                                className={`ai-input-menu-item px-3 py-1.5 cursor-pointer ${i === highlightedItem ? 'ai-input-menu-item-highlighted' : ''}`}
+                            >
+                                <div className="truncate">
+                                    <span className="ai-input-text-muted">{mentionQuery.trigger}</span>
+                                    {item.label}
+                                </div>
+                                {item.description && (
+                                    <div className="ai-input-text-muted text-xs truncate">{item.description}</div>
+                                )}
+                            </li>
+                        ))}
+                        {isSearchingMentions ? (
+                            <li className="ai-input-text-muted flex items-center gap-2 px-3 py-1.5">
+                                <Spinner className="h-3.5 w-3.5" />
+                                Searching...
+                            </li>
+                        ) : mentionSuggestions.length === 0 && (
+                            <li className="ai-input-text-muted px-3 py-1.5">No matches</li>
+                        )}
+                    </ul>
+                )}
+
+                {/* Prompt history search */}
+                {isSearchingHistory && (
+                    <HistorySearch
+                        history={history}
+                        searchHistory={searchHistory}
+                        onSelect={(index) => {
+                            recallHistory(index)
+                            closeHistorySearch()
+                        }}
+                        onClose={closeHistorySearch}
+                    />
+                )}
+
+                {/* Text input, with the inline suggestion drawn after the typed text */}
+                <div className="relative">
+                    {completion && !showCommands && !showMentions && (
+                        <div
+                            ref={ghostRef}
+                            aria-hidden="true"
+                            className="absolute inset-0 px-4 pt-4 pb-2 overflow-hidden whitespace-pre-wrap break-words pointer-events-none"
+                        >
+                            {/* Suggestions only exist while the caret is at the end, so the whole text precedes them */}
+                            <span className="invisible">{text}</span>
+                            <span className="ai-input-ghost">{completion}</span>
+                        </div>
+                    )}
+                    <textarea
+                        ref={textareaRef}
+                        value={text}
+                        onChange={handleInput}
+                        onSelect={handleSelect}
+                        onScroll={handleScroll}
+                        onKeyDown={handleKeyDown}
+                        onPaste={handlePaste}
+                        placeholder={isRecording ? (isPaused ? 'Paused' : 'Listening...') : placeholder}
+                        disabled={disabled || isLoading || isRateLimited}
+                        rows={1}
+                        className={`ai-input-textarea w-full px-4 pt-4 pb-2 bg-transparent focus:outline-none disabled:cursor-not-allowed resize-none min-h-[56px] transition-colors duration-200 ${reviewingTranscription ? 'ai-input-review' : ''}`}
+                        style={{ height: '56px' }}
+                    />
+                </div>
+
+                {/* Arguments of the command being typed */}
+                {activeCommand && !showCommands && (
+                    <div className="ai-input-text-muted px-4 pb-1 text-sm truncate">
+                        <CommandSignature command={activeCommand} />
+                        {activeCommand.description && ` - ${activeCommand.description}`}
+                    </div>
+                )}
+
+                {/* Interim transcript from live speech recognition */}
+                {interimTranscript && (
+                    <div className="ai-input-text-muted px-4 pb-1 opacity-70 italic">
+                        {interimTranscript}
+                    </div>
+                )}
 
                 {/* Toolbar */}
                 <div className="flex items-center justify-between px-3 pb-3 pt-1">
@@ -182,19 +852,83 @@ function DefaultUI({
                                 >
                                     <XIcon className="h-5 w-5" />
                                 </button>
+                                {canPauseRecording && (
+                                    <button
+                                        onClick={isPaused ? resumeRecording : pauseRecording}
+                                        disabled={disabled}
+                                        className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 active:scale-95"
+                                        aria-label={isPaused ? 'Resume recording' : 'Pause recording'}
+                                    >
+                                        {isPaused ? <PlayIcon className="h-5 w-5" /> : <PauseIcon className="h-5 w-5" />}
+                                    </button>
+                                )}
                                 <div className="flex items-center">
-                                    <RecordingPulse />
-                                    <Waveform levels={audioLevels} />
+                                    {!isPaused && <RecordingPulse />}
+                                    <Waveform source={audioLevelsSource} />
                                 </div>
                                 <span className="ai-input-text-muted text-sm font-mono tabular-nums">
                                     {formatDuration(recordingDuration)}
                                 </span>
                             </>
+                        ) : isReviewingRecording ? (
+                            <>
+                                <button
+                                    onClick={discardRecording}
+                                    disabled={disabled}
+                                    className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 active:scale-95"
+                                    aria-label="Discard recording"
+                                >
+                                    <XIcon className="h-5 w-5" />
+                                </button>
+                                <button
+                                    onClick={isPlayingRecording ? pausePlayback : playRecording}
+                                    disabled={disabled}
+                                    className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 active:scale-95"
+                                    aria-label={isPlayingRecording ? 'Pause playback' : 'Play recording'}
+                                >
+                                    {isPlayingRecording ? <PauseIcon className="h-5 w-5" /> : <PlayIcon className="h-5 w-5" />}
+                                </button>
+                                <StaticWaveform
+                                    levels={recordedWaveform}
+                                    progress={recordedAudioDuration > 0 ? playbackPosition / recordedAudioDuration : 0}
+                                    onSeek={(fraction) => seekPlayback(fraction * recordedAudioDuration)}
+                                />
+                                <span className="ai-input-text-muted text-sm font-mono tabular-nums">
+                                    {formatDuration(playbackPosition)} / {formatDuration(recordedAudioDuration)}
+                                </span>
+                            </>
                         ) : (
                             <div className="text-sm min-h-[28px] flex items-center">
+                                {isLoading && (
+                                    <Spinner className="ai-input-text-muted h-4 w-4" />
+                                )}
+                                {isCancelled && (
+                                    <span className="ai-input-text-muted">Cancelled</span>
+                                )}
+                                {reviewingTranscription && !isLoading && (
+                                    <>
+                                        <span className="ai-input-text-muted">Review transcription, then send</span>
+                                        <button
+                                            onClick={discardTranscription}
+                                            disabled={disabled}
+                                            className="ai-input-btn-secondary ml-2 px-2 py-0.5 rounded-lg transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            Discard
+                                        </button>
+                                    </>
+                                )}
                                 {hasError && error && (
                                     <span className="ai-input-text-error animate-pulse">{error.message}</span>
                                 )}
+                                {hasError && lastPayload !== null && (
+                                    <button
+                                        onClick={() => retry()}
+                                        disabled={disabled}
+                                        className="ai-input-btn-secondary ml-2 px-2 py-0.5 rounded-lg transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Retry
+                                    </button>
+                                )}
                                 {isRateLimited && (
                                     <span className="ai-input-text-warning">
                                         Wait {formatDuration(cooldownRemaining)}
@@ -217,29 +951,78 @@ function DefaultUI({
                             </button>
                         ) : (
                             <>
-                                <button
-                                    onClick={startRecording}
-                                    disabled={disabled || isLoading || isRateLimited}
-                                    className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                                    aria-label="Start recording"
-                                >
-                                    <MicIcon className="h-5 w-5" />
-                                </button>
-                                <button
-                                    onClick={submit}
-                                    disabled={!canSubmit || disabled}
-                                    className={`
-                                        p-2.5 rounded-full transition-all duration-200
-                                        disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
-                                        ${canSubmit
-                                            ? 'ai-input-btn-primary hover:scale-105 active:scale-95 shadow-lg'
-                                            : 'ai-input-btn-disabled'
-                                        }
-                                    `}
-                                    aria-label="Send message"
-                                >
-                                    {isLoading ? <Spinner className="h-5 w-5" /> : <ArrowUpIcon className="h-5 w-5" />}
-                                </button>
+                                {attachmentConfig && (
+                                    <>
+                                        <input
+                                            ref={fileInputRef}
+                                            type="file"
+                                            multiple
+                                            accept={attachmentConfig.accept}
+                                            onChange={handleFileSelect}
+                                            className="hidden"
+                                        />
+                                        <button
+                                            onClick={() => fileInputRef.current?.click()}
+                                            disabled={!canAttach}
+                                            className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                            aria-label="Attach files"
+                                        >
+                                            <PaperclipIcon className="h-5 w-5" />
+                                        </button>
+                                    </>
+                                )}
+                                {micPermission !== 'unsupported' && (
+                                    // Disabled buttons don't show tooltips - the title sits on a wrapper
+                                    <span
+                                        title={isMicDenied
+                                            ? 'Microphone access is blocked. Allow it in your browser\'s site settings to record.'
+                                            : undefined}
+                                        className="inline-flex"
+                                    >
+                                        <button
+                                            onClick={startRecording}
+                                            disabled={disabled || isLoading || !canSubmitAudio || isMicDenied}
+                                            className="ai-input-btn-secondary p-2 rounded-lg transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                            aria-label={isMicDenied ? 'Microphone access blocked' : 'Start recording'}
+                                        >
+                                            <MicIcon className="h-5 w-5" />
+                                        </button>
+                                    </span>
+                                )}
+                                {micPermission !== 'unsupported' && devices.length > 1 && (
+                                    <DevicePicker
+                                        devices={devices}
+                                        selectedDeviceId={selectedDeviceId}
+                                        onSelect={selectDevice}
+                                        disabled={disabled || isLoading}
+                                    />
+                                )}
+                                {isLoading ? (
+                                    <button
+                                        onClick={cancelRequest}
+                                        disabled={disabled}
+                                        className="ai-input-btn-primary p-2.5 rounded-full transition-all duration-200 hover:scale-105 active:scale-95 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                                        aria-label="Stop generating"
+                                    >
+                                        <StopIcon className="h-5 w-5" />
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={submit}
+                                        disabled={!canSubmit || disabled}
+                                        className={`
+                                            p-2.5 rounded-full transition-all duration-200
+                                            disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
+                                            ${canSubmit
+                                                ? 'ai-input-btn-primary hover:scale-105 active:scale-95 shadow-lg'
+                                                : 'ai-input-btn-disabled'
+                                            }
+                                        `}
+                                        aria-label="Send message"
+                                    >
+                                        <ArrowUpIcon className="h-5 w-5" />
+                                    </button>
+                                )}
                             </>
                         )}
                     </div>
@@ -260,27 +1043,15 @@ function DefaultUI({
  * 3. `prefers-color-scheme` system preference
  */
 export function AiInput({
-    send,
-    sendAudio,
-    rateLimit,
-    audioConfig,
-    onSuccess,
-    onError,
-    onTranscription,
     children,
     placeholder,
     className,
     disabled = false,
+    ...options
 }: AiInputProps) {
-    const inputState = useAiInput({
-        send,
-        sendAudio,
-        rateLimit,
-        audioConfig,
-        onSuccess,
-        onError,
-        onTranscription,
-    })
+    // Remaining props are hook options; passed through as a whole so the
+    // payload mode stays tied to the matching send signature
+    const inputState = useAiInput(options)
 
     if (children) {
         return <>{children(inputState)}</>
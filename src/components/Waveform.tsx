@@ -0,0 +1,85 @@
+import { useRef, useEffect, useCallback } from 'react'
+import type { WaveformProps } from '../types'
+
+const DEFAULT_COLORS: [string, string] = ['#d97706', '#fbbf24']
+
+// Level of the bars shown before any audio arrives
+const IDLE_LEVEL = 0.15
+
+// Shortest bar in pixels
+const MIN_BAR_HEIGHT = 6
+
+/**
+ * Canvas waveform. With a `source`, levels are drawn as they arrive
+ * without re-rendering React components.
+ *
+ * @example
+ * <Waveform source={audioLevelsSource} />
+ */
+export function Waveform({
+    source,
+    levels,
+    bars = 16,
+    height = 40,
+    barWidth = 6,
+    gap = 4,
+    colors = DEFAULT_COLORS,
+    className = '',
+}: WaveformProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    // Draw levels, resizing the canvas to fit them
+    const draw = useCallback((current: number[]) => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext('2d')
+        if (!canvas || !context) return
+
+        const values = current.length > 0 ? current : new Array(bars).fill(IDLE_LEVEL)
+        const width = values.length * (barWidth + gap) - gap
+        const ratio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+
+        if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+            canvas.width = Math.round(width * ratio)
+            canvas.height = Math.round(height * ratio)
+            canvas.style.width = `${width}px`
+            canvas.style.height = `${height}px`
+        }
+
+        context.setTransform(ratio, 0, 0, ratio, 0, 0)
+        context.clearRect(0, 0, width, height)
+
+        const gradient = context.createLinearGradient(0, height, 0, 0)
+        gradient.addColorStop(0, colors[0])
+        gradient.addColorStop(1, colors[1])
+        context.fillStyle = gradient
+
+        values.forEach((level, i) => {
+            const barHeight = Math.max(MIN_BAR_HEIGHT, Math.min(1, level) * height)
+            const x = i * (barWidth + gap)
+            const y = (height - barHeight) / 2
+            const radius = Math.min(barWidth / 2, barHeight / 2)
+
+            context.globalAlpha = 0.6 + Math.min(1, level) * 0.4
+            context.beginPath()
+            if (typeof context.roundRect === 'function') {
+                context.roundRect(x, y, barWidth, barHeight, radius)
+            } else {
+                context.rect(x, y, barWidth, barHeight)
+            }
+            context.fill()
+        })
+        context.globalAlpha = 1
+    }, [bars, height, barWidth, gap, colors])
+
+    // Follow the source, or draw the static levels
+    useEffect(() => {
+        if (!source) {
+            draw(levels || [])
+            return
+        }
+        draw(source.getLevels())
+        return source.subscribe(draw)
+    }, [source, levels, draw])
+
+    return <canvas ref={canvasRef} className={className} aria-hidden="true" />
+}
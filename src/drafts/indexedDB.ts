@@ -0,0 +1,100 @@
+import type { DraftRecord, DraftStorage } from '../types'
+
+const DEFAULT_DATABASE_NAME = 'ai-input'
+const DEFAULT_STORE_NAME = 'drafts'
+const CHANNEL_NAME = 'ai-input-draft'
+
+/**
+ * Resolve an IndexedDB request as a promise
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+/**
+ * Create an IndexedDB draft storage. Unlike localStorage it can hold Blobs,
+ * so pending attachments and recordings under review are kept with the text.
+ * Other tabs are notified of changes through BroadcastChannel.
+ *
+ * @example
+ * const draftStorage = createIndexedDBDraftStorage()
+ *
+ * <AiInput persistDraft={{ key: 'chat', storage: draftStorage }} />
+ *
+ * @param options - Database and object store names
+ */
+export function createIndexedDBDraftStorage(
+    options: { databaseName?: string; storeName?: string } = {}
+): DraftStorage {
+    const databaseName = options.databaseName || DEFAULT_DATABASE_NAME
+    const storeName = options.storeName || DEFAULT_STORE_NAME
+
+    // Opened on first use and reused
+    let database: Promise<IDBDatabase> | null = null
+    const open = () => {
+        if (!database) {
+            if (typeof indexedDB === 'undefined') {
+                return Promise.reject(new Error('IndexedDB is not supported in this environment'))
+            }
+            const request = indexedDB.open(databaseName, 1)
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName)
+                }
+            }
+            database = toPromise(request)
+            // Let a later call try again
+            database.catch(() => {
+                database = null
+            })
+        }
+        return database
+    }
+
+    const getStore = async (mode: IDBTransactionMode) => {
+        const db = await open()
+        return db.transaction(storeName, mode).objectStore(storeName)
+    }
+
+    // Tell other tabs the draft changed
+    const announce = (key: string) => {
+        if (typeof BroadcastChannel === 'undefined') return
+        const channel = new BroadcastChannel(CHANNEL_NAME)
+        channel.postMessage({ databaseName, storeName, key })
+        channel.close()
+    }
+
+    return {
+        storesBlobs: true,
+
+        async get(key) {
+            const record = await toPromise((await getStore('readonly')).get(key))
+            return (record as DraftRecord | undefined) || null
+        },
+
+        async set(key, record) {
+            await toPromise((await getStore('readwrite')).put(record, key))
+            announce(key)
+        },
+
+        async remove(key) {
+            await toPromise((await getStore('readwrite')).delete(key))
+            announce(key)
+        },
+
+        subscribe(key, listener) {
+            if (typeof BroadcastChannel === 'undefined') return () => {}
+            const channel = new BroadcastChannel(CHANNEL_NAME)
+            channel.onmessage = (event: MessageEvent) => {
+                const data = event.data as { databaseName?: string; storeName?: string; key?: string } | null
+                if (data?.databaseName === databaseName && data.storeName === storeName && data.key === key) {
+                    listener()
+                }
+            }
+            return () => channel.close()
+        },
+    }
+}
@@ -0,0 +1,91 @@
+import type { DraftRecord, DraftStorage } from '../types'
+
+const DEFAULT_PREFIX = 'ai-input-draft:'
+
+/**
+ * Parse a stored draft, ignoring anything malformed
+ */
+function parseRecord(value: string | null): DraftRecord | null {
+    if (!value) return null
+    try {
+        const record = JSON.parse(value) as Partial<DraftRecord> | null
+        if (!record || typeof record.text !== 'string') return null
+        return {
+            text: record.text,
+            updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : 0,
+        }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Text-only draft storage over localStorage or sessionStorage.
+ * Unavailable storage (SSR, privacy mode) behaves as empty.
+ */
+function createWebStorageDraftStorage(getStorage: () => Storage, prefix: string): DraftStorage {
+    const hasStorage = () => {
+        try {
+            return Boolean(getStorage())
+        } catch {
+            return false
+        }
+    }
+
+    return {
+        get: (key) => {
+            if (!hasStorage()) return null
+            try {
+                return parseRecord(getStorage().getItem(prefix + key))
+            } catch {
+                return null
+            }
+        },
+        set: (key, record) => {
+            if (!hasStorage()) return
+            try {
+                getStorage().setItem(prefix + key, JSON.stringify({ text: record.text, updatedAt: record.updatedAt }))
+            } catch {
+                // Storage full or blocked - the draft stays in memory only
+            }
+        },
+        remove: (key) => {
+            if (!hasStorage()) return
+            try {
+                getStorage().removeItem(prefix + key)
+            } catch {
+                // Storage blocked
+            }
+        },
+        subscribe: (key, listener) => {
+            if (typeof window === 'undefined') return () => {}
+            const handleStorage = (event: StorageEvent) => {
+                // A null key means the whole storage was cleared
+                if ((event.key === null || event.key === prefix + key) && event.storageArea === getStorage()) {
+                    listener()
+                }
+            }
+            window.addEventListener('storage', handleStorage)
+            return () => window.removeEventListener('storage', handleStorage)
+        },
+    }
+}
+
+/**
+ * Create a localStorage draft storage. Keeps the text only; changes from
+ * other tabs are picked up through `storage` events.
+ *
+ * @param prefix - Prefix for the localStorage keys
+ */
+export function createLocalDraftStorage(prefix: string = DEFAULT_PREFIX): DraftStorage {
+    return createWebStorageDraftStorage(() => localStorage, prefix)
+}
+
+/**
+ * Create a sessionStorage draft storage. Keeps the text only, for this tab.
+ *
+ * @param prefix - Prefix for the sessionStorage keys
+ */
+export function createSessionDraftStorage(prefix: string = DEFAULT_PREFIX): DraftStorage {
+    return createWebStorageDraftStorage(() => sessionStorage, prefix)
+}
@@ -1,3 +1,11 @@
 export { useRateLimiter } from './useRateLimiter'
 export { useAudioRecorder } from './useAudioRecorder'
+export { useSpeechRecognition } from './useSpeechRecognition'
+export { useAudioPlayback } from './useAudioPlayback'
+export { useAudioDevices } from './useAudioDevices'
+export { useMicPermission } from './useMicPermission'
+export { useDraft } from './useDraft'
+export { usePromptHistory } from './usePromptHistory'
+export { useMentions } from './useMentions'
+export { useCompletion } from './useCompletion'
 export { useAiInput } from './useAiInput'
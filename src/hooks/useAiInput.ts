@@ -1,12 +1,43 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import type { SetStateAction } from 'react'
 import { useRateLimiter } from './useRateLimiter'
 import { useAudioRecorder } from './useAudioRecorder'
+import { useSpeechRecognition, appendTranscript } from './useSpeechRecognition'
+import { useAudioPlayback } from './useAudioPlayback'
+import { useAudioDevices } from './useAudioDevices'
+import { useMicPermission } from './useMicPermission'
+import { useDraft } from './useDraft'
+import { usePromptHistory } from './usePromptHistory'
+import { useMentions } from './useMentions'
+import { useCompletion } from './useCompletion'
+import { isStreamingResponse, toAsyncIterable, resolveResponse, assembleChunks } from '../utils/stream'
+import { detectStreamFormat, streamText } from '../utils/sse'
+import { isRetryableError, getRetryDelay, wait } from '../utils/retry'
+import { createTextPayload, createAudioPayload, toLegacyInput } from '../utils/payload'
+import { extractTranscriptionText } from '../utils/transcription'
+import { parseCommand, validateCommand, getCommandSuggestions, completeCommand } from '../utils/commands'
+import type { ParsedCommand } from '../utils/commands'
+import { getMentionToken } from '../utils/mentions'
+import { validateFiles, createAttachment, restoreAttachment, revokeAttachment, toPayloadAttachment } from '../utils/attachments'
+import { RateLimitError } from '../rateLimit/errors'
+import { readRateLimitHeaders, getErrorRateLimit } from '../rateLimit/server'
+import { createMemoryRateLimitStorage } from '../rateLimit/storage'
+import { getRequestType, getRequestCost } from '../rateLimit/weights'
 import type {
     UseAiInputOptions,
     UseAiInputReturn,
     AiInputState,
     RateLimitConfig,
     AudioConfig,
+    AttachmentConfig,
+    RetryConfig,
+    SendContext,
+    SendFunction,
+    AiInputPayload,
+    AiInputAttachment,
+    StreamingTranscriberSession,
+    RateLimitRequestType,
+    SlashCommand,
 } from '../types'
 
 const DEFAULT_RATE_LIMIT: RateLimitConfig = {
@@ -18,8 +49,42 @@ const DEFAULT_RATE_LIMIT: RateLimitConfig = {
 const DEFAULT_AUDIO_CONFIG: AudioConfig = {
     maxDurationMs: 60000,
     mimeTypes: ['audio/webm', 'audio/mp4', 'audio/ogg', 'audio/wav'],
+    silenceThreshold: 0.015,
+    silenceDurationMs: 1500,
+    minSpeechDurationMs: 250,
+    autoStopOnSilence: false,
+    outputFormat: 'native',
+    outputSampleRate: 16000,
+    normalize: false,
+    confirmBeforeSend: false,
 }
 
+const DEFAULT_ATTACHMENT_CONFIG: AttachmentConfig = {
+    accept: 'image/*,application/pdf',
+    maxFiles: 5,
+    maxFileSize: 10 * 1024 * 1024,
+}
+
+const DEFAULT_RETRY: RetryConfig = {
+    maxAttempts: 3,
+    initialDelayMs: 500,
+    backoffFactor: 2,
+    maxDelayMs: 10000,
+    jitter: 0.2,
+    shouldRetry: isRetryableError,
+}
+
+// Stable fallback for the commands option
+const NO_COMMANDS: SlashCommand[] = []
+
+/**
+ * Outcome of a single request
+ */
+type RequestOutcome =
+    | { status: 'success'; response: unknown }
+    | { status: 'error'; error: Error }
+    | { status: 'cancelled' }
+
 /**
  * Main hook for AI input functionality.
  * Combines rate limiting, audio recording, and API communication.
@@ -30,180 +95,891 @@ const DEFAULT_AUDIO_CONFIG: AudioConfig = {
  */
 export function useAiInput(options: UseAiInputOptions): UseAiInputReturn {
     const {
-        send,
-        sendAudio,
         rateLimit = {},
         audioConfig = {},
+        attachmentConfig: attachmentOption,
+        retry: retryOption,
+        extractDelta,
+        metadata,
         onSuccess,
         onError,
         onTranscription,
+        extractTranscription = extractTranscriptionText,
+        transcriptionMode = 'insert',
+        speechRecognition: speechRecognitionOption,
+        streamingTranscriber,
+        onAudioChunk,
+        persistDraft,
+        history: historyOption,
+        commands = NO_COMMANDS,
+        mentions: mentionProviders,
+        complete,
+        completion: completionOption,
     } = options
 
+    // Audio responses are treated as transcriptions once any transcription option is set
+    const handlesTranscription = Boolean(
+        onTranscription || options.extractTranscription || options.transcriptionMode
+    )
+
     const rateLimitConfig = { ...DEFAULT_RATE_LIMIT, ...rateLimit }
     const audioConfigMerged = { ...DEFAULT_AUDIO_CONFIG, ...audioConfig }
+    // Attachments are only enabled when configured
+    const attachmentConfig: AttachmentConfig | null = attachmentOption
+        ? { ...DEFAULT_ATTACHMENT_CONFIG, ...attachmentOption }
+        : null
+    // Without a retry option, each request is attempted once.
+    // Memoized per setting, so inline retry objects don't recreate the request callbacks.
+    const retryConfig = useMemo<RetryConfig>(() => (
+        retryOption
+            ? { ...DEFAULT_RETRY, ...retryOption }
+            : { ...DEFAULT_RETRY, maxAttempts: 1 }
+    ), [
+        Boolean(retryOption),
+        retryOption?.maxAttempts,
+        retryOption?.initialDelayMs,
+        retryOption?.backoffFactor,
+        retryOption?.maxDelayMs,
+        retryOption?.jitter,
+        retryOption?.shouldRetry,
+    ])
 
     // State
     const [state, setState] = useState<AiInputState>('idle')
     const [text, setText] = useState('')
+    // Reported by the UI; null means the end of the text
+    const [caretPosition, setCaretPosition] = useState<number | null>(null)
     const [error, setError] = useState<Error | null>(null)
     const [result, setResult] = useState<unknown>(null)
+    const [partialResult, setPartialResult] = useState<unknown>(null)
+    const [chunks, setChunks] = useState<unknown[]>([])
+    const [lastPayload, setLastPayload] = useState<AiInputPayload | null>(null)
+    const [attachments, setAttachments] = useState<AiInputAttachment[]>([])
+    const [reviewingTranscription, setReviewingTranscription] = useState(false)
+    const [reviewRecording, setReviewRecording] = useState<{ blob: Blob; durationMs: number } | null>(null)
+
+    // Set the text from here rather than from typing; a reported caret would be
+    // stale, so it moves to the end of the text
+    const replaceText = useCallback((value: SetStateAction<string>) => {
+        setText(value)
+        setCaretPosition(null)
+    }, [])
+
+    // Latest attachments, for revoking preview URLs on unmount
+    const attachmentsRef = useRef(attachments)
+    attachmentsRef.current = attachments
 
-    // Ref to track if we're waiting to submit audio after recording stops
+    // Ref to track if we're waiting to submit audio after recording stops.
+    // Set when recording starts, so automatic stops (silence, max duration) submit too.
     const pendingAudioSubmitRef = useRef(false)
 
-    // Rate limiter
-    const rateLimiter = useRateLimiter(rateLimitConfig)
+    // Controller for the in-flight request, null when idle
+    const abortControllerRef = useRef<AbortController | null>(null)
+
+    // Request rejected by the server's rate limit, resent when requests are allowed again
+    const resubmitPayloadRef = useRef<AiInputPayload | null>(null)
+
+    // Rate limiters. Text and audio share one budget unless either has its own
+    // settings; without a key, the budget belongs to this input alone and
+    // isn't shared with other tabs.
+    const [privateRateLimitStorage] = useState(createMemoryRateLimitStorage)
+    const hasSeparateBudgets = Boolean(rateLimitConfig.text || rateLimitConfig.audio)
+    const budgetKey = rateLimitConfig.key || 'ai-input'
+    const budgetStorage = rateLimitConfig.key ? rateLimitConfig.storage : privateRateLimitStorage
+    const budgetCrossTab = rateLimitConfig.key ? undefined : false
+    const textRateLimiter = useRateLimiter({
+        ...rateLimitConfig,
+        ...rateLimitConfig.text,
+        key: hasSeparateBudgets ? `${budgetKey}:text` : budgetKey,
+        storage: budgetStorage,
+        crossTab: budgetCrossTab,
+    })
+    const audioRateLimiter = useRateLimiter({
+        ...rateLimitConfig,
+        ...rateLimitConfig.audio,
+        key: hasSeparateBudgets ? `${budgetKey}:audio` : budgetKey,
+        storage: budgetStorage,
+        crossTab: budgetCrossTab,
+    })
+    const rateLimiters = { text: textRateLimiter, audio: audioRateLimiter }
+
+    // Latest rate limiter values, read between automatic retries
+    const rateLimitersRef = useRef(rateLimiters)
+    rateLimitersRef.current = rateLimiters
+
+    // Budget behind the 'rate-limited' state
+    const [rateLimitedType, setRateLimitedType] = useState<RateLimitRequestType>('text')
+
+    // Streaming transcription session, null when not streaming
+    const transcriberSessionRef = useRef<StreamingTranscriberSession | null>(null)
+    // Incremented per session and on abort; results from older sessions are ignored
+    const transcriberIdRef = useRef(0)
+    // Final transcripts of the current streaming session
+    const streamedTranscriptRef = useRef('')
+    const [streamingInterim, setStreamingInterim] = useState('')
+    const transcriberInput = streamingTranscriber?.input || 'encoded'
+
+    // Microphone permission
+    const micPermission = useMicPermission()
+
+    // Microphone selection
+    const audioDevices = useAudioDevices({ deviceId: audioConfigMerged.deviceId })
 
     // Audio recorder
     const audioRecorder = useAudioRecorder({
         ...audioConfigMerged,
+        deviceId: audioDevices.selectedDeviceId || undefined,
+        onAudioChunk: (chunk) => {
+            onAudioChunk?.(chunk)
+            if (transcriberInput === 'encoded') {
+                transcriberSessionRef.current?.send({ kind: 'encoded', data: chunk })
+            }
+        },
+        onPcmFrame: streamingTranscriber && transcriberInput === 'pcm'
+            ? (samples, sampleRate) => transcriberSessionRef.current?.send({ kind: 'pcm', samples, sampleRate })
+            : undefined,
     })
 
-    // Update state based on rate limiter
+    // Playback of a recording held for review
+    const playback = useAudioPlayback(reviewRecording?.blob ?? null)
+
+    // Text as it was before live recognition started, restored on cancel
+    const textBeforeRecognitionRef = useRef('')
+    // Text including final transcripts, ahead of the next render
+    const liveTextRef = useRef('')
+
+    // Append a final live transcript segment to the text
+    const appendLiveSegment = (segment: string) => {
+        liveTextRef.current = appendTranscript(liveTextRef.current, segment)
+        replaceText(liveTextRef.current)
+    }
+
+    // Apply the transcription mode once live transcription (recognition or streaming) ends
+    const completeLiveTranscript = (transcript: string) => {
+        // Keep an error reported before the session ended
+        setState((prev) => (prev === 'recording' ? 'idle' : prev))
+        if (!transcript.trim()) {
+            return
+        }
+        onTranscription?.(transcript)
+        if (transcriptionMode === 'send') {
+            submitText(liveTextRef.current)
+        } else if (transcriptionMode === 'review') {
+            setReviewingTranscription(true)
+        }
+    }
+
+    // Latest completion handler, for streaming sessions finishing after a re-render
+    const completeLiveTranscriptRef = useRef(completeLiveTranscript)
+    completeLiveTranscriptRef.current = completeLiveTranscript
+
+    // Live speech recognition
+    const recognition = useSpeechRecognition({
+        ...speechRecognitionOption,
+        onFinalTranscript: appendLiveSegment,
+        onEnd: completeLiveTranscript,
+    })
+
+    // Close the streaming transcription session, dropping pending transcripts
+    const abortStreamingTranscription = useCallback(() => {
+        transcriberIdRef.current++
+        transcriberSessionRef.current?.abort()
+        transcriberSessionRef.current = null
+        setStreamingInterim('')
+    }, [])
+
+    // Live recognition replaces recorder upload when configured and supported
+    const useLiveRecognition = Boolean(speechRecognitionOption) && recognition.isSupported
+    const isRecording = audioRecorder.isRecording || recognition.isListening
+    // Live transcripts are sent as text, so they count against the text budget
+    const recordingRateLimiter = useLiveRecognition ? textRateLimiter : audioRateLimiter
+
+    // Update state based on rate limiter. The text budget decides when idle;
+    // a request rejected by the server waits for its own budget.
     useEffect(() => {
-        if (!rateLimiter.canRequest && state === 'idle') {
+        if (!textRateLimiter.canRequest && state === 'idle') {
+            setRateLimitedType('text')
             setState('rate-limited')
-        } else if (rateLimiter.canRequest && state === 'rate-limited') {
+        } else if (rateLimiters[rateLimitedType].canRequest && state === 'rate-limited') {
             setState('idle')
         }
-    }, [rateLimiter.canRequest, state])
+    }, [textRateLimiter.canRequest, audioRateLimiter.canRequest, rateLimitedType, state])
 
     // Update state when recording
     useEffect(() => {
-        if (audioRecorder.isRecording && state !== 'recording') {
+        if (isRecording && state !== 'recording') {
             setState('recording')
         }
-    }, [audioRecorder.isRecording, state])
+    }, [isRecording, state])
+
+    // A started recording means access was granted - device labels are now available
+    useEffect(() => {
+        if (audioRecorder.isRecording) {
+            micPermission.reportPermission('granted')
+            audioDevices.refresh()
+        }
+    }, [audioRecorder.isRecording, micPermission.reportPermission, audioDevices.refresh])
 
     // Handle audio recorder errors
     useEffect(() => {
         if (audioRecorder.error) {
+            if (audioRecorder.error.name === 'NotAllowedError') {
+                micPermission.reportPermission('denied')
+            }
+            abortStreamingTranscription()
             setError(audioRecorder.error)
             setState('error')
             onError?.(audioRecorder.error)
         }
-    }, [audioRecorder.error, onError])
+    }, [audioRecorder.error, abortStreamingTranscription, micPermission.reportPermission, onError])
 
-    // Submit text
-    const submitText = useCallback(async () => {
-        if (!text.trim() || !rateLimiter.canRequest) {
-            return
+    // Handle speech recognition errors
+    useEffect(() => {
+        if (recognition.error) {
+            setError(recognition.error)
+            setState('error')
+            onError?.(recognition.error)
         }
+    }, [recognition.error, onError])
 
-        setState('loading')
+    // Consume a send() result, streaming chunks into state when applicable.
+    // Event-stream and NDJSON Responses are parsed into text deltas.
+    // Stops reading once the request is no longer current (cancelled or superseded).
+    const consumeResponse = useCallback(async (
+        response: unknown,
+        isCurrent: () => boolean
+    ): Promise<unknown> => {
+        if (!isStreamingResponse(response)) {
+            return resolveResponse(response)
+        }
+
+        const format = detectStreamFormat(response)
+        const source = format
+            ? streamText(response as Response, { format, extractDelta })
+            : toAsyncIterable(response)
+
+        const received: unknown[] = []
+        for await (const chunk of source) {
+            if (!isCurrent()) break
+            received.push(chunk)
+            setChunks([...received])
+            setPartialResult(assembleChunks(received))
+            setState('streaming')
+        }
+        return assembleChunks(received)
+    }, [extractDelta])
+
+    // Pass a payload to the configured transport, in the shape its payload mode expects.
+    // Audio goes through sendAudio when provided, otherwise through send.
+    const dispatch = useCallback((payload: AiInputPayload, context: SendContext) => {
+        // The payload mode decides which input type the configured functions take
+        const sendFn = ((payload.kind === 'audio' && options.sendAudio) || options.send) as SendFunction<string | Blob | AiInputPayload>
+        return sendFn(options.payloadMode === 'structured' ? payload : toLegacyInput(payload), context)
+    }, [options.payloadMode, options.send, options.sendAudio])
+
+    // Run a request through the transport, retrying per the retry config.
+    // Any previous in-flight request is aborted; results of requests that are
+    // no longer current are ignored so they can't overwrite newer state.
+    // Intermediate requests (e.g. transcription before sending) leave success
+    // handling to the caller.
+    const runRequest = useCallback(async (
+        payload: AiInputPayload,
+        { intermediate = false }: { intermediate?: boolean } = {}
+    ): Promise<RequestOutcome> => {
+        abortControllerRef.current?.abort()
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        const isCurrent = () => abortControllerRef.current === controller
+
+        setLastPayload(payload)
         setError(null)
-        rateLimiter.recordRequest()
+        resubmitPayloadRef.current = null
+        const readServerLimit = rateLimitConfig.readResponse || readRateLimitHeaders
+        const requestType = getRequestType(payload)
+        const rateLimiter = rateLimitersRef.current[requestType]
 
-        try {
-            const response = await send(text)
-            setResult(response)
-            setState('success')
-            onSuccess?.(response)
-            // Clear text after successful send
-            setText('')
-        } catch (err) {
-            const error = err instanceof Error ? err : new Error('Request failed')
-            setError(error)
+        for (let attempt = 1; ; attempt++) {
+            setState('loading')
+            setPartialResult(null)
+            setChunks([])
+            // Every attempt, including automatic retries, counts against the rate limit
+            rateLimiter.recordRequest(getRequestCost(payload, rateLimitConfig.weights))
+
+            try {
+                const rawResponse = await dispatch(payload, {
+                    signal: controller.signal,
+                    attempt,
+                    attachments: payload.attachments,
+                    references: (payload.kind !== 'audio' && payload.references) || [],
+                })
+                // Keep the limiter in step with the server's own count
+                const serverLimit = readServerLimit(rawResponse)
+                if (serverLimit) {
+                    rateLimiter.applyServerLimit(serverLimit)
+                }
+                if (typeof Response !== 'undefined' && rawResponse instanceof Response && rawResponse.status === 429) {
+                    throw new RateLimitError(undefined, serverLimit || {})
+                }
+                const response = await consumeResponse(rawResponse, isCurrent)
+                if (!isCurrent()) {
+                    return { status: 'cancelled' }
+                }
+                abortControllerRef.current = null
+                if (!intermediate) {
+                    setResult(response)
+                    setState('success')
+                    onSuccess?.(response)
+                }
+                return { status: 'success', response }
+            } catch (err) {
+                if (!isCurrent()) {
+                    return { status: 'cancelled' }
+                }
+                const error = err instanceof Error ? err : new Error('Request failed')
+
+                // The server's rate limit decides when to try again, not the retry backoff
+                const serverLimit = getErrorRateLimit(error)
+                if (serverLimit) {
+                    const hasWait = serverLimit.retryAfterMs !== undefined || serverLimit.remaining !== undefined
+                    // Without a retry time, wait one cooldown
+                    rateLimiter.applyServerLimit(hasWait ? serverLimit : { retryAfterMs: rateLimitConfig.cooldownMs })
+                    if (rateLimitConfig.autoResubmit) {
+                        resubmitPayloadRef.current = payload
+                    }
+                    abortControllerRef.current = null
+                    setError(error)
+                    setRateLimitedType(requestType)
+                    setState('rate-limited')
+                    onError?.(error)
+                    return { status: 'error', error }
+                }
+
+                // Ask the limiter, not the last render: this attempt has already been counted
+                const canRetry = attempt < retryConfig.maxAttempts
+                    && retryConfig.shouldRetry(error, attempt)
+                    && rateLimiter.getRequestsRemaining() > 0
+                if (canRetry) {
+                    // Never retry before the budget being used allows (its cooldown included)
+                    const delay = Math.max(getRetryDelay(retryConfig, attempt), rateLimiter.getWaitTime())
+                    await wait(delay, controller.signal)
+                    if (!isCurrent()) {
+                        return { status: 'cancelled' }
+                    }
+                    // Inputs sharing the budget may have used it up in the meantime
+                    if (rateLimiter.getWaitTime() === 0) {
+                        continue
+                    }
+                }
+
+                abortControllerRef.current = null
+                setError(error)
+                setState('error')
+                onError?.(error)
+                return { status: 'error', error }
+            }
+        }
+    }, [
+        rateLimitConfig.cooldownMs,
+        rateLimitConfig.weights,
+        rateLimitConfig.readResponse,
+        rateLimitConfig.autoResubmit,
+        retryConfig,
+        dispatch,
+        consumeResponse,
+        onSuccess,
+        onError,
+    ])
+
+    // Cancel the in-flight request
+    const cancelRequest = useCallback(() => {
+        if (!abortControllerRef.current) {
+            return
+        }
+        abortControllerRef.current.abort()
+        abortControllerRef.current = null
+        resubmitPayloadRef.current = null
+        setState('cancelled')
+    }, [])
+
+    // Abort any in-flight request and transcription session on unmount
+    useEffect(() => {
+        return () => {
+            abortControllerRef.current?.abort()
+            abortControllerRef.current = null
+            transcriberIdRef.current++
+            transcriberSessionRef.current?.abort()
+        }
+    }, [])
+
+    // Attach files that pass validation
+    const addFiles = useCallback((files: FileList | File[]) => {
+        if (!attachmentConfig) {
+            return
+        }
+
+        const { accepted, error: validationError } = validateFiles(
+            Array.from(files),
+            attachmentsRef.current.length,
+            attachmentConfig
+        )
+        if (accepted.length > 0) {
+            setAttachments((prev) => [...prev, ...accepted.map(createAttachment)])
+        }
+        if (validationError) {
+            setError(validationError)
             setState('error')
-            onError?.(error)
+            onError?.(validationError)
         }
-    }, [text, rateLimiter, send, onSuccess, onError])
+    }, [attachmentConfig?.accept, attachmentConfig?.maxFiles, attachmentConfig?.maxFileSize, onError])
 
-    // Submit audio
-    const submitAudio = useCallback(async (blob: Blob) => {
-        if (!rateLimiter.canRequest) {
+    // Remove an attached file
+    const removeAttachment = useCallback((id: string) => {
+        setAttachments((prev) => {
+            const removed = prev.find((attachment) => attachment.id === id)
+            if (removed) {
+                revokeAttachment(removed)
+            }
+            return prev.filter((attachment) => attachment.id !== id)
+        })
+    }, [])
+
+    // Remove all attached files
+    const clearAttachments = useCallback(() => {
+        attachmentsRef.current.forEach(revokeAttachment)
+        setAttachments([])
+    }, [])
+
+    // Revoke preview URLs on unmount
+    useEffect(() => {
+        return () => {
+            attachmentsRef.current.forEach(revokeAttachment)
+        }
+    }, [])
+
+    // Draft autosave - restores text, and with a Blob storage attachments and the recording under review
+    const draft = useDraft({
+        config: persistDraft,
+        content: { text, attachments, recording: reviewRecording },
+        onRestore: (restored) => {
+            replaceText(restored.text)
+            if (restored.attachments) {
+                attachmentsRef.current.forEach(revokeAttachment)
+                setAttachments(restored.attachments.map(restoreAttachment))
+            }
+            if (restored.recording !== undefined) {
+                const recording = restored.recording
+                setReviewRecording(recording)
+                setState((prev) => {
+                    if (recording) return prev === 'idle' ? 'review' : prev
+                    return prev === 'review' ? 'idle' : prev
+                })
+            }
+        },
+    })
+
+    // Sent prompts, recalled with recallHistory
+    const promptHistory = usePromptHistory({ config: historyOption })
+
+    // Entities mentioned with trigger characters, sent as references
+    const mentions = useMentions({
+        providers: mentionProviders,
+        text,
+        setText: replaceText,
+        caret: caretPosition,
+        setCaret: setCaretPosition,
+    })
+
+    // Inline completion, paused while recording, sending, or picking a command or mention
+    const commandSuggestions = getCommandSuggestions(text, commands)
+    const completion = useCompletion({
+        complete,
+        config: completionOption,
+        text,
+        setText: replaceText,
+        caret: caretPosition,
+        enabled: !isRecording
+            && state !== 'loading'
+            && state !== 'streaming'
+            && reviewRecording === null
+            && mentions.query === null
+            && commandSuggestions.length === 0,
+    })
+
+    // Submit a payload and apply its outcome.
+    // `prompt` is recorded in the history instead of the payload's text (slash commands).
+    const submitPayload = useCallback(async (payload: AiInputPayload, prompt?: string) => {
+        if (!rateLimitersRef.current[getRequestType(payload)].canRequest) {
             return
         }
 
-        setState('loading')
-        setError(null)
-        rateLimiter.recordRequest()
+        const isTranscription = payload.kind === 'audio' && handlesTranscription
+        const outcome = await runRequest(payload, {
+            intermediate: isTranscription && transcriptionMode !== 'insert',
+        })
+        if (outcome.status !== 'success') {
+            return
+        }
+
+        if (payload.kind !== 'audio') {
+            // Record the prompt, then clear text, attachments and the draft after successful send
+            promptHistory.add(prompt ?? payload.text)
+            replaceText('')
+            clearAttachments()
+            mentions.clear()
+            setReviewingTranscription(false)
+            draft.clear()
+            return
+        }
+
+        if (!isTranscription) {
+            return
+        }
+
+        const transcriptionText = extractTranscription(outcome.response)
+        if (typeof transcriptionText !== 'string') {
+            if (transcriptionMode !== 'insert') {
+                const error = new Error('No transcription found in response')
+                setError(error)
+                setState('error')
+                onError?.(error)
+            }
+            return
+        }
+
+        replaceText(transcriptionText)
+        onTranscription?.(transcriptionText)
+
+        if (transcriptionMode === 'insert') {
+            return
+        }
+        if (!transcriptionText.trim()) {
+            setState('idle')
+            return
+        }
+        if (transcriptionMode === 'review') {
+            // Leave the transcript in the textarea until the user confirms
+            setReviewingTranscription(true)
+            setState('idle')
+            return
+        }
+
+        // 'send' - forward the transcript as a text prompt. This is part of the
+        // same user action, so it skips the cooldown check but still counts.
+        const forwarded = await runRequest(
+            createTextPayload(transcriptionText, attachments.map(toPayloadAttachment), { metadata })
+        )
+        if (forwarded.status === 'success') {
+            promptHistory.add(transcriptionText)
+            replaceText('')
+            clearAttachments()
+            draft.clear()
+        }
+    }, [
+        handlesTranscription,
+        transcriptionMode,
+        extractTranscription,
+        attachments,
+        metadata,
+        runRequest,
+        clearAttachments,
+        draft.clear,
+        promptHistory.add,
+        mentions.clear,
+        replaceText,
+        onTranscription,
+        onError,
+    ])
+
+    // Resend a request rejected by the server once requests are allowed again
+    useEffect(() => {
+        const payload = resubmitPayloadRef.current
+        if (!payload || !rateLimiters[getRequestType(payload)].canRequest) {
+            return
+        }
+        resubmitPayloadRef.current = null
+        submitPayload(payload)
+    }, [textRateLimiter.canRequest, audioRateLimiter.canRequest, submitPayload])
 
+    // Latest reset, for command handlers (defined below)
+    const resetRef = useRef<() => void>(() => {})
+
+    // Run a slash command: send what its handler returns, or nothing when handled locally
+    const runCommand = useCallback(async (input: string, parsed: ParsedCommand) => {
+        const references = mentions.references.filter((reference) => parsed.text.includes(getMentionToken(reference)))
+        const payload = createTextPayload(parsed.text, attachments.map(toPayloadAttachment), { metadata }, references)
         try {
-            // Use sendAudio if provided, otherwise use send
-            const sendFn = sendAudio || send
-            const response = await sendFn(blob)
-            setResult(response)
-            setState('success')
-            onSuccess?.(response)
-
-            // Handle transcription if callback provided
-            if (onTranscription && response && typeof response === 'object') {
-                const res = response as Record<string, unknown>
-                // Try common transcription response formats
-                const transcriptionText = res.text || res.transcription || res.transcript
-                if (typeof transcriptionText === 'string') {
-                    setText(transcriptionText)
-                    onTranscription(transcriptionText)
-                }
+            const invalid = validateCommand(parsed)
+            if (invalid) {
+                throw invalid
+            }
+            const output = await parsed.command.handler({
+                args: parsed.args,
+                text: parsed.text,
+                payload,
+                setText: replaceText,
+                reset: () => resetRef.current(),
+            })
+            if (!output) {
+                // Clear the command, unless the handler put new text in the input
+                promptHistory.add(input)
+                replaceText((current) => (current === input ? '' : current))
+                return
             }
+            await submitPayload(typeof output === 'string' ? { ...payload, text: output } : output, input)
         } catch (err) {
-            const error = err instanceof Error ? err : new Error('Request failed')
+            const error = err instanceof Error ? err : new Error('Command failed')
             setError(error)
             setState('error')
             onError?.(error)
         }
-    }, [rateLimiter, send, sendAudio, onSuccess, onError, onTranscription])
+    }, [attachments, metadata, mentions.references, submitPayload, promptHistory.add, replaceText, onError])
 
-    // Handle audio blob ready - submit if we were waiting
+    // Submit text together with the current attachments, or run the command it names
+    const submitText = useCallback((input: string) => {
+        const command = parseCommand(input, commands)
+        if (command) {
+            runCommand(input, command)
+            return
+        }
+        if (!input.trim() && attachments.length === 0) {
+            return
+        }
+        const references = mentions.references.filter((reference) => input.includes(getMentionToken(reference)))
+        submitPayload(createTextPayload(input, attachments.map(toPayloadAttachment), { metadata }, references))
+    }, [commands, runCommand, submitPayload, attachments, metadata, mentions.references])
+
+    // Submit audio
+    const submitAudio = useCallback((blob: Blob, durationMs: number) => {
+        submitPayload(createAudioPayload(blob, durationMs, { metadata }))
+    }, [submitPayload, metadata])
+
+    // Handle audio blob ready - submit (or hold for review) if we were waiting
     useEffect(() => {
         if (pendingAudioSubmitRef.current && audioRecorder.audioBlob && !audioRecorder.isRecording) {
             pendingAudioSubmitRef.current = false
-            submitAudio(audioRecorder.audioBlob)
+            if (transcriberSessionRef.current) {
+                // Transcripts are already in the text - wait for the final ones
+                const session = transcriberSessionRef.current
+                const sessionId = transcriberIdRef.current
+                session.finish().then(
+                    () => {
+                        if (transcriberIdRef.current !== sessionId) return
+                        transcriberSessionRef.current = null
+                        setStreamingInterim('')
+                        completeLiveTranscriptRef.current(streamedTranscriptRef.current)
+                    },
+                    (err: unknown) => {
+                        if (transcriberIdRef.current !== sessionId) return
+                        const finishError = err instanceof Error ? err : new Error('Transcription failed')
+                        abortStreamingTranscription()
+                        setError(finishError)
+                        setState('error')
+                        onError?.(finishError)
+                    }
+                )
+                return
+            }
+            if (audioConfigMerged.confirmBeforeSend) {
+                setReviewRecording({ blob: audioRecorder.audioBlob, durationMs: audioRecorder.duration })
+                setState('review')
+                return
+            }
+            submitAudio(audioRecorder.audioBlob, audioRecorder.duration)
         }
-    }, [audioRecorder.audioBlob, audioRecorder.isRecording, submitAudio])
+    }, [audioRecorder.audioBlob, audioRecorder.isRecording, audioRecorder.duration, audioConfigMerged.confirmBeforeSend, submitAudio, abortStreamingTranscription, onError])
+
+    // Send the recording under review
+    const sendRecording = useCallback(() => {
+        if (!reviewRecording || !audioRateLimiter.canRequest) {
+            return
+        }
+        setReviewRecording(null)
+        submitAudio(reviewRecording.blob, reviewRecording.durationMs)
+    }, [reviewRecording, audioRateLimiter.canRequest, submitAudio])
+
+    // Discard the recording under review
+    const discardRecording = useCallback(() => {
+        setReviewRecording(null)
+        setState((prev) => (prev === 'review' ? 'idle' : prev))
+    }, [])
 
     // Start recording
     const startRecording = useCallback(async () => {
-        if (!rateLimiter.canRequest) {
+        if (!recordingRateLimiter.canRequest) {
             return
         }
+        setReviewingTranscription(false)
+        // Re-recording replaces a recording under review
+        setReviewRecording(null)
+        if (useLiveRecognition) {
+            textBeforeRecognitionRef.current = text
+            liveTextRef.current = text
+            recognition.start()
+            return
+        }
+        if (streamingTranscriber) {
+            textBeforeRecognitionRef.current = text
+            liveTextRef.current = text
+            streamedTranscriptRef.current = ''
+            const sessionId = ++transcriberIdRef.current
+            const isCurrent = () => transcriberIdRef.current === sessionId
+            try {
+                const session = await streamingTranscriber.start({
+                    onTranscript: (result) => {
+                        if (!isCurrent()) return
+                        if (result.isFinal) {
+                            streamedTranscriptRef.current = appendTranscript(streamedTranscriptRef.current, result.transcript)
+                            appendLiveSegment(result.transcript)
+                            setStreamingInterim('')
+                        } else {
+                            setStreamingInterim(result.transcript)
+                        }
+                    },
+                    onError: (err) => {
+                        if (!isCurrent()) return
+                        abortStreamingTranscription()
+                        pendingAudioSubmitRef.current = false
+                        audioRecorder.cancelRecording()
+                        setError(err)
+                        setState('error')
+                        onError?.(err)
+                    },
+                })
+                if (!isCurrent()) {
+                    session.abort()
+                    return
+                }
+                transcriberSessionRef.current = session
+            } catch (err) {
+                const startError = err instanceof Error ? err : new Error('Failed to start transcription')
+                setError(startError)
+                setState('error')
+                onError?.(startError)
+                return
+            }
+        }
+        // Also set for streaming transcription, which finishes when the recording is ready
+        pendingAudioSubmitRef.current = true
         await audioRecorder.startRecording()
-    }, [rateLimiter.canRequest, audioRecorder])
+    }, [recordingRateLimiter.canRequest, useLiveRecognition, streamingTranscriber, text, recognition, audioRecorder, abortStreamingTranscription, onError])
 
     // Stop recording and submit
     const stopRecording = useCallback(() => {
-        // Mark that we want to submit audio when blob is ready
-        pendingAudioSubmitRef.current = true
+        if (recognition.isListening) {
+            // Transcripts are already in the text - finish the session
+            recognition.stop()
+            return
+        }
+        // Audio is submitted when the blob is ready
         audioRecorder.stopRecording()
-    }, [audioRecorder])
+    }, [recognition, audioRecorder])
 
     // Cancel recording (discard audio)
     const cancelRecording = useCallback(() => {
+        if (recognition.isListening) {
+            recognition.abort()
+            replaceText(textBeforeRecognitionRef.current)
+        }
+        if (transcriberSessionRef.current) {
+            abortStreamingTranscription()
+            replaceText(textBeforeRecognitionRef.current)
+        }
+        pendingAudioSubmitRef.current = false
         audioRecorder.cancelRecording()
         setState('idle')
-    }, [audioRecorder])
+    }, [recognition, audioRecorder, abortStreamingTranscription, replaceText])
 
     // Submit based on current state
     const submit = useCallback(() => {
-        if (audioRecorder.isRecording) {
+        if (isRecording) {
             stopRecording()
-        } else if (text.trim()) {
-            submitText()
+        } else if (reviewRecording) {
+            sendRecording()
+        } else if (text.trim() || attachments.length > 0) {
+            submitText(text)
+        }
+    }, [isRecording, reviewRecording, text, attachments.length, stopRecording, sendRecording, submitText])
+
+    // Send the reviewed transcript
+    const confirmTranscription = useCallback(() => {
+        submitText(text)
+    }, [submitText, text])
+
+    // Discard the reviewed transcript
+    const discardTranscription = useCallback(() => {
+        replaceText('')
+        setReviewingTranscription(false)
+    }, [replaceText])
+
+    // Resend the last payload, or an edited text prompt
+    const retry = useCallback((input?: string) => {
+        if (input !== undefined) {
+            submitText(input)
+        } else if (lastPayload) {
+            submitPayload(lastPayload)
         }
-    }, [audioRecorder.isRecording, text, stopRecording, submitText])
+    }, [lastPayload, submitText, submitPayload])
 
     // Reset all state
     const reset = useCallback(() => {
+        abortControllerRef.current?.abort()
+        abortControllerRef.current = null
         setState('idle')
-        setText('')
+        replaceText('')
         setError(null)
         setResult(null)
-        rateLimiter.reset()
+        setPartialResult(null)
+        setChunks([])
+        setLastPayload(null)
+        setReviewingTranscription(false)
+        setReviewRecording(null)
+        clearAttachments()
+        draft.clear()
+        promptHistory.resetNavigation()
+        mentions.clear()
+        resubmitPayloadRef.current = null
+        // A shared budget belongs to every input using the key
+        if (!rateLimitConfig.key) {
+            textRateLimiter.reset()
+            audioRateLimiter.reset()
+        }
+        pendingAudioSubmitRef.current = false
+        abortStreamingTranscription()
         audioRecorder.reset()
-    }, [rateLimiter, audioRecorder])
+        recognition.reset()
+    }, [textRateLimiter, audioRateLimiter, rateLimitConfig.key, audioRecorder, recognition, clearAttachments, draft.clear, promptHistory.resetNavigation, mentions.clear, abortStreamingTranscription, replaceText])
+    resetRef.current = reset
+
+    // Show a history entry; the prompt being written comes back after the newest one
+    const recallHistory = useCallback((target: 'previous' | 'next' | number) => {
+        const recalled = promptHistory.navigate(target, text)
+        if (recalled !== null) {
+            replaceText(recalled)
+        }
+    }, [promptHistory.navigate, text, replaceText])
 
-    // Can submit check
-    const canSubmit =
-        rateLimiter.canRequest &&
-        state !== 'loading' &&
-        (audioRecorder.isRecording || text.trim().length > 0)
+    // Complete the typed name to a command
+    const selectCommand = useCallback((command: SlashCommand) => {
+        replaceText((current) => completeCommand(current, command))
+    }, [replaceText])
+
+    // Can submit checks, per budget
+    const isBusy = state === 'loading' || state === 'streaming'
+    const canSubmitText = textRateLimiter.canRequest
+        && !isBusy
+        && (text.trim().length > 0 || attachments.length > 0)
+    const canSubmitAudio = recordingRateLimiter.canRequest && !isBusy
+    // Submitting while recording or reviewing sends the recording
+    const canSubmitRecording = (reviewRecording !== null ? audioRateLimiter : recordingRateLimiter).canRequest && !isBusy
+    const canSubmit = isRecording || reviewRecording !== null ? canSubmitRecording : canSubmitText
 
     return {
         // State
         state,
         error,
         result,
+        partialResult,
+        chunks,
 
         // Text
         text,
@@ -212,17 +988,91 @@ export function useAiInput(options: UseAiInputOptions): UseAiInputReturn {
         canSubmit,
 
         // Audio
-        isRecording: audioRecorder.isRecording,
+        isRecording,
         startRecording,
         stopRecording,
+        isPaused: audioRecorder.isPaused,
+        canPauseRecording: audioRecorder.isRecording,
+        pauseRecording: audioRecorder.pauseRecording,
+        resumeRecording: audioRecorder.resumeRecording,
         cancelRecording,
-        recordingDuration: audioRecorder.duration,
+        recordedAudio: reviewRecording?.blob ?? null,
+        recordedAudioUrl: playback.url,
+        recordedAudioDuration: reviewRecording?.durationMs ?? 0,
+        recordedWaveform: playback.waveform,
+        isPlayingRecording: playback.isPlaying,
+        playbackPosition: playback.position,
+        playRecording: playback.play,
+        pausePlayback: playback.pause,
+        seekPlayback: playback.seek,
+        sendRecording,
+        discardRecording,
+        micPermission: micPermission.permission,
+        requestMicPermission: micPermission.requestPermission,
+        devices: audioDevices.devices,
+        selectedDeviceId: audioDevices.selectedDeviceId,
+        selectDevice: audioDevices.selectDevice,
+        // A recording restored from a draft has no recorder duration
+        recordingDuration: reviewRecording
+            ? reviewRecording.durationMs
+            : recognition.isListening ? recognition.duration : audioRecorder.duration,
+        reviewingTranscription,
+        confirmTranscription,
+        discardTranscription,
         maxRecordingDuration: audioConfigMerged.maxDurationMs,
         audioLevels: audioRecorder.audioLevels,
+        audioLevelsSource: audioRecorder.audioLevelsSource,
+        isSpeaking: audioRecorder.isSpeaking,
+        silenceMs: audioRecorder.silenceMs,
+        interimTranscript: recognition.interimTranscript || streamingInterim,
+
+        // Attachments
+        attachments,
+        addFiles,
+        removeAttachment,
+        attachmentConfig,
 
         // Rate limiting
-        cooldownRemaining: rateLimiter.cooldownRemaining,
-        requestsRemaining: rateLimiter.requestsRemaining,
+        cooldownRemaining: state === 'rate-limited'
+            ? rateLimiters[rateLimitedType].cooldownRemaining
+            : textRateLimiter.cooldownRemaining,
+        requestsRemaining: textRateLimiter.requestsRemaining,
+        canSubmitText,
+        canSubmitAudio,
+        textRequestsRemaining: textRateLimiter.requestsRemaining,
+        audioRequestsRemaining: audioRateLimiter.requestsRemaining,
+
+        // Request
+        cancelRequest,
+        lastPayload,
+        retry,
+
+        // History
+        history: promptHistory.entries,
+        historyIndex: promptHistory.index,
+        recallHistory,
+        searchHistory: promptHistory.search,
+        clearHistory: promptHistory.clear,
+
+        // Slash commands
+        activeCommand: parseCommand(text, commands)?.command ?? null,
+        commandSuggestions,
+        selectCommand,
+
+        // Mentions
+        mentionQuery: mentions.query,
+        mentionSuggestions: mentions.suggestions,
+        isSearchingMentions: mentions.isSearching,
+        selectMention: mentions.select,
+        references: mentions.references,
+        removeReference: mentions.remove,
+        setCaretPosition,
+
+        // Inline completion
+        completion: completion.suggestion,
+        isCompleting: completion.isCompleting,
+        acceptCompletion: completion.accept,
+        dismissCompletion: completion.dismiss,
 
         // Utils
         reset,
@@ -0,0 +1,97 @@
+import { useState, useCallback, useEffect } from 'react'
+import type { UseAudioDevicesOptions, UseAudioDevicesReturn } from '../types'
+
+const DEFAULT_STORAGE_KEY = 'ai-input-audio-device'
+
+/**
+ * Read the remembered device, tolerating unavailable storage (SSR, privacy mode)
+ */
+function readStoredDevice(key: string | false): string | null {
+    if (!key || typeof localStorage === 'undefined') return null
+    try {
+        return localStorage.getItem(key)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Remember the chosen device, or forget it for null
+ */
+function writeStoredDevice(key: string | false, deviceId: string | null): void {
+    if (!key || typeof localStorage === 'undefined') return
+    try {
+        if (deviceId) {
+            localStorage.setItem(key, deviceId)
+        } else {
+            localStorage.removeItem(key)
+        }
+    } catch {
+        // Storage full or blocked - the choice still applies for this session
+    }
+}
+
+/**
+ * Hook for listing and choosing microphones.
+ * The list is refreshed on `devicechange`, and the chosen device
+ * is remembered in localStorage. A configured device wins over the
+ * remembered one, and is selected again whenever it changes.
+ *
+ * @param options - Configured device and storage configuration
+ * @returns Devices, selection and controls
+ */
+export function useAudioDevices(options: UseAudioDevicesOptions = {}): UseAudioDevicesReturn {
+    const { deviceId } = options
+    const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY
+
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+    const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+        () => deviceId || readStoredDevice(storageKey) || null
+    )
+
+    // Follow the configured device when it changes
+    useEffect(() => {
+        if (deviceId) {
+            setSelectedDeviceId(deviceId)
+        }
+    }, [deviceId])
+
+    const isSupported = typeof navigator !== 'undefined'
+        && 'mediaDevices' in navigator
+        && 'enumerateDevices' in navigator.mediaDevices
+
+    // Enumerate audio inputs
+    const refresh = useCallback(async () => {
+        if (!isSupported) return
+        try {
+            const all = await navigator.mediaDevices.enumerateDevices()
+            setDevices(all.filter((device) => device.kind === 'audioinput'))
+        } catch {
+            setDevices([])
+        }
+    }, [isSupported])
+
+    // Choose a device
+    const selectDevice = useCallback((deviceId: string | null) => {
+        setSelectedDeviceId(deviceId)
+        writeStoredDevice(storageKey, deviceId)
+    }, [storageKey])
+
+    // Initial list, refreshed when devices are plugged in or removed
+    useEffect(() => {
+        if (!isSupported) return
+        refresh()
+        navigator.mediaDevices.addEventListener('devicechange', refresh)
+        return () => {
+            navigator.mediaDevices.removeEventListener('devicechange', refresh)
+        }
+    }, [isSupported, refresh])
+
+    return {
+        isSupported,
+        devices,
+        selectedDeviceId,
+        selectDevice,
+        refresh,
+    }
+}
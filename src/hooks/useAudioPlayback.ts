@@ -0,0 +1,118 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { getWaveformPeaks } from '../utils/waveform'
+import type { UseAudioPlaybackOptions, UseAudioPlaybackReturn } from '../types'
+
+const DEFAULT_WAVEFORM_BARS = 40
+
+/**
+ * Hook for playing back a recorded Blob.
+ * Owns the object URL (revoked when the blob changes or on unmount)
+ * and computes a static waveform of the whole recording.
+ *
+ * @param blob - Recording to play, or null
+ * @param options - Playback configuration
+ * @returns Playback state and controls
+ */
+export function useAudioPlayback(
+    blob: Blob | null,
+    options: UseAudioPlaybackOptions = {}
+): UseAudioPlaybackReturn {
+    const bars = options.waveformBars ?? DEFAULT_WAVEFORM_BARS
+
+    const [url, setUrl] = useState<string | null>(null)
+    const [isPlaying, setIsPlaying] = useState(false)
+    const [position, setPosition] = useState(0)
+    const [waveform, setWaveform] = useState<number[]>([])
+
+    const audioRef = useRef<HTMLAudioElement | null>(null)
+
+    // Create the object URL and audio element for the blob
+    useEffect(() => {
+        setIsPlaying(false)
+        setPosition(0)
+        if (!blob) {
+            setUrl(null)
+            return
+        }
+
+        const objectUrl = URL.createObjectURL(blob)
+        const audio = new Audio(objectUrl)
+        audioRef.current = audio
+        setUrl(objectUrl)
+
+        const updatePosition = () => setPosition(audio.currentTime * 1000)
+        const handlePlay = () => setIsPlaying(true)
+        const handlePause = () => setIsPlaying(false)
+        const handleEnded = () => {
+            setIsPlaying(false)
+            setPosition(0)
+        }
+
+        audio.addEventListener('timeupdate', updatePosition)
+        audio.addEventListener('play', handlePlay)
+        audio.addEventListener('pause', handlePause)
+        audio.addEventListener('ended', handleEnded)
+
+        return () => {
+            audio.removeEventListener('timeupdate', updatePosition)
+            audio.removeEventListener('play', handlePlay)
+            audio.removeEventListener('pause', handlePause)
+            audio.removeEventListener('ended', handleEnded)
+            audio.pause()
+            audio.removeAttribute('src')
+            if (audioRef.current === audio) {
+                audioRef.current = null
+            }
+            URL.revokeObjectURL(objectUrl)
+        }
+    }, [blob])
+
+    // Compute the static waveform
+    useEffect(() => {
+        setWaveform([])
+        if (!blob || typeof AudioContext === 'undefined') {
+            return
+        }
+
+        let cancelled = false
+        getWaveformPeaks(blob, bars)
+            .then((peaks) => {
+                if (!cancelled) setWaveform(peaks)
+            })
+            .catch(() => {
+                // Undecodable audio - playback still works without a waveform
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [blob, bars])
+
+    // Start or continue playback
+    const play = useCallback(() => {
+        audioRef.current?.play().catch(() => setIsPlaying(false))
+    }, [])
+
+    // Pause playback
+    const pause = useCallback(() => {
+        audioRef.current?.pause()
+    }, [])
+
+    // Jump to a position in milliseconds
+    const seek = useCallback((positionMs: number) => {
+        const audio = audioRef.current
+        if (!audio) return
+        audio.currentTime = Math.max(0, positionMs) / 1000
+        setPosition(audio.currentTime * 1000)
+    }, [])
+
+    return {
+        url,
+        isPlaying,
+        position,
+        waveform,
+        play,
+        pause,
+        seek,
+    }
+}
@@ -1,9 +1,92 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
-import type { UseAudioRecorderOptions, UseAudioRecorderReturn } from '../types'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
+import { transcodeToWav } from '../utils/transcode'
+import { computeTimeLevels, computeFrequencyLevels, computePeakLevel, smoothLevels } from '../utils/levels'
+import type { AudioLevelsSource, UseAudioRecorderOptions, UseAudioRecorderReturn, WaveformConfig } from '../types'
 
 const DEFAULT_OPTIONS: UseAudioRecorderOptions = {
     maxDurationMs: 60000, // 1 minute
     mimeTypes: ['audio/webm', 'audio/mp4', 'audio/ogg', 'audio/wav'],
+    silenceThreshold: 0.015,
+    silenceDurationMs: 1500,
+    minSpeechDurationMs: 250,
+    autoStopOnSilence: false,
+    outputFormat: 'native',
+    outputSampleRate: 16000,
+    normalize: false,
+}
+
+const DEFAULT_WAVEFORM: WaveformConfig = {
+    bars: 16,
+    mode: 'time',
+    history: false,
+    historyIntervalMs: 50,
+}
+
+// Frequencies above this carry little of the voice, so frequency bars stop here
+const MAX_VOICE_FREQUENCY = 8000
+
+// How often voice activity is measured. A timer rather than the animation
+// loop, so speech is still counted while the tab is in the background.
+const VAD_INTERVAL_MS = 50
+
+/**
+ * Smallest power-of-two FFT size giving at least two samples per bar
+ */
+function getFftSize(bars: number): number {
+    let size = 256
+    while (size < bars * 2 && size < 32768) {
+        size *= 2
+    }
+    return size
+}
+
+/**
+ * AudioWorklet processor that downmixes input to mono
+ * and posts it in frames of 2048 samples
+ */
+const PCM_WORKLET_NAME = 'ai-input-pcm-frames'
+const PCM_WORKLET_SOURCE = `
+class PcmFrameProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super()
+        this.frame = new Float32Array(2048)
+        this.length = 0
+    }
+
+    process(inputs) {
+        const channels = inputs[0]
+        if (channels && channels.length > 0) {
+            for (let i = 0; i < channels[0].length; i++) {
+                let sum = 0
+                for (let c = 0; c < channels.length; c++) {
+                    sum += channels[c][i]
+                }
+                this.frame[this.length++] = sum / channels.length
+                if (this.length === this.frame.length) {
+                    this.port.postMessage(this.frame.slice(0))
+                    this.length = 0
+                }
+            }
+        }
+        return true
+    }
+}
+registerProcessor('${PCM_WORKLET_NAME}', PcmFrameProcessor)
+`
+
+/**
+ * Build getUserMedia audio constraints from the recording options.
+ * Unset options are left to the browser.
+ */
+function buildAudioConstraints(options: UseAudioRecorderOptions): MediaTrackConstraints | true {
+    const constraints: MediaTrackConstraints = {}
+    if (options.deviceId) constraints.deviceId = { exact: options.deviceId }
+    if (options.echoCancellation !== undefined) constraints.echoCancellation = options.echoCancellation
+    if (options.noiseSuppression !== undefined) constraints.noiseSuppression = options.noiseSuppression
+    if (options.autoGainControl !== undefined) constraints.autoGainControl = options.autoGainControl
+    if (options.sampleRate !== undefined) constraints.sampleRate = { ideal: options.sampleRate }
+    if (options.channelCount !== undefined) constraints.channelCount = { ideal: options.channelCount }
+    return Object.keys(constraints).length > 0 ? constraints : true
 }
 
 /**
@@ -37,22 +120,46 @@ export function useAudioRecorder(
     const config = { ...DEFAULT_OPTIONS, ...options }
 
     const [isRecording, setIsRecording] = useState(false)
+    const [isPaused, setIsPaused] = useState(false)
     const [duration, setDuration] = useState(0)
     const [audioBlob, setAudioBlob] = useState<Blob | null>(null)
     const [error, setError] = useState<Error | null>(null)
     const [audioLevels, setAudioLevels] = useState<number[]>([])
+    const [isSpeaking, setIsSpeaking] = useState(false)
+    const [silenceMs, setSilenceMs] = useState(0)
 
     const mediaRecorderRef = useRef<MediaRecorder | null>(null)
     const streamRef = useRef<MediaStream | null>(null)
     const chunksRef = useRef<Blob[]>([])
     const startTimeRef = useRef<number>(0)
+    // Recorded time before the current (unpaused) segment
+    const elapsedBeforeRef = useRef<number>(0)
+    const isPausedRef = useRef(false)
+    // Incremented per recording and on cancel, so late transcoding results are dropped
+    const recordingIdRef = useRef(0)
     const durationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
     const maxDurationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const vadIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
     // Web Audio API refs for visualization
     const audioContextRef = useRef<AudioContext | null>(null)
     const analyserRef = useRef<AnalyserNode | null>(null)
     const animationFrameRef = useRef<number | null>(null)
+    const pcmWorkletRef = useRef<AudioWorkletNode | null>(null)
+
+    // Latest levels and their listeners - updated every frame without re-rendering
+    const levelsRef = useRef<number[]>([])
+    const levelListenersRef = useRef(new Set<(levels: number[]) => void>())
+    // Scrolling history bars and when the last one was added
+    const historyRef = useRef<number[]>([])
+    const lastHistoryAtRef = useRef(0)
+
+    // Voice activity detection, updated from the VAD timer
+    const vadRef = useRef({ speechMs: 0, silenceMs: 0, lastCheckAt: 0 })
+
+    // Latest config, read from the analyser loop and the VAD timer
+    const configRef = useRef(config)
+    configRef.current = config
 
     // Check if audio recording is supported
     const isSupported = typeof navigator !== 'undefined'
@@ -60,7 +167,115 @@ export function useAudioRecorder(
         && 'getUserMedia' in navigator.mediaDevices
         && typeof MediaRecorder !== 'undefined'
 
-    // Update audio levels from analyser - uses time domain for better voice visualization
+    // Recorded time, excluding pauses
+    const getElapsed = useCallback(() => {
+        if (isPausedRef.current) {
+            return elapsedBeforeRef.current
+        }
+        return elapsedBeforeRef.current + Date.now() - startTimeRef.current
+    }, [])
+
+    // Stop the duration and VAD timers and the max-duration timeout
+    const clearTimers = useCallback(() => {
+        if (durationIntervalRef.current) {
+            clearInterval(durationIntervalRef.current)
+            durationIntervalRef.current = null
+        }
+
+        if (vadIntervalRef.current) {
+            clearInterval(vadIntervalRef.current)
+            vadIntervalRef.current = null
+        }
+
+        if (maxDurationTimeoutRef.current) {
+            clearTimeout(maxDurationTimeoutRef.current)
+            maxDurationTimeoutRef.current = null
+        }
+    }, [])
+
+    // Stop recording
+    const stopRecording = useCallback(() => {
+        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+            mediaRecorderRef.current.stop()
+        }
+        setIsRecording(false)
+        setIsPaused(false)
+    }, [])
+
+    // Voice activity detection from the RMS level of the current analyser frame
+    const detectVoiceActivity = useCallback(() => {
+        if (!analyserRef.current) return
+
+        const analyser = analyserRef.current
+        const dataArray = new Uint8Array(analyser.fftSize)
+        analyser.getByteTimeDomainData(dataArray)
+
+        let sumSquares = 0
+        for (let i = 0; i < dataArray.length; i++) {
+            const sample = (dataArray[i] - 128) / 128
+            sumSquares += sample * sample
+        }
+        const rms = Math.sqrt(sumSquares / dataArray.length)
+
+        const vad = vadRef.current
+        const { silenceThreshold, silenceDurationMs, minSpeechDurationMs, autoStopOnSilence } = configRef.current
+        // Wall-clock time since the last check, so throttled timers still count in full
+        const now = Date.now()
+        const elapsed = vad.lastCheckAt ? now - vad.lastCheckAt : 0
+        vad.lastCheckAt = now
+
+        const speaking = rms >= silenceThreshold
+        if (speaking) {
+            vad.speechMs += elapsed
+            vad.silenceMs = 0
+        } else {
+            vad.silenceMs += elapsed
+        }
+        setIsSpeaking(speaking)
+        // Report silence in 100ms steps to avoid re-rendering on every check
+        setSilenceMs(Math.floor(vad.silenceMs / 100) * 100)
+
+        // Auto-stop once the user has spoken and gone quiet
+        if (autoStopOnSilence && vad.speechMs >= minSpeechDurationMs && vad.silenceMs >= silenceDurationMs) {
+            stopRecording()
+        }
+    }, [stopRecording])
+
+    // Start the duration and VAD timers and the max-duration timeout for the remaining time
+    const startTimers = useCallback(() => {
+        // Update duration and the levels state every 100ms
+        durationIntervalRef.current = setInterval(() => {
+            setDuration(getElapsed())
+            setAudioLevels(levelsRef.current)
+        }, 100)
+
+        // Measure voice activity
+        vadIntervalRef.current = setInterval(detectVoiceActivity, VAD_INTERVAL_MS)
+
+        // Auto-stop at max duration
+        maxDurationTimeoutRef.current = setTimeout(() => {
+            stopRecording()
+        }, Math.max(0, configRef.current.maxDurationMs - elapsedBeforeRef.current))
+    }, [getElapsed, stopRecording, detectVoiceActivity])
+
+    // Store levels and notify listeners
+    const publishLevels = useCallback((levels: number[]) => {
+        levelsRef.current = levels
+        levelListenersRef.current.forEach((listener) => listener(levels))
+    }, [])
+
+    // Stable source for per-frame levels
+    const audioLevelsSource = useMemo<AudioLevelsSource>(() => ({
+        getLevels: () => levelsRef.current,
+        subscribe: (listener) => {
+            levelListenersRef.current.add(listener)
+            return () => {
+                levelListenersRef.current.delete(listener)
+            }
+        },
+    }), [])
+
+    // Update audio levels from analyser
     const updateAudioLevels = useCallback(() => {
         if (!analyserRef.current) return
 
@@ -68,44 +283,44 @@ export function useAudioRecorder(
         const bufferLength = analyser.fftSize
         const dataArray = new Uint8Array(bufferLength)
 
-        // Use time domain data for even distribution across bars
+        // Time domain data drives the waveform and voice activity detection
         analyser.getByteTimeDomainData(dataArray)
 
-        // Sample 16 bars from the waveform data
-        const bars = 16
-        const step = Math.floor(bufferLength / bars)
-        const levels: number[] = []
-
-        for (let i = 0; i < bars; i++) {
-            // Get amplitude variation from center (128) for each segment
-            let maxDeviation = 0
-            for (let j = 0; j < step; j++) {
-                const value = dataArray[i * step + j]
-                const deviation = Math.abs(value - 128)
-                maxDeviation = Math.max(maxDeviation, deviation)
+        const waveform = { ...DEFAULT_WAVEFORM, ...configRef.current.waveform }
+        const isFrequency = waveform.mode === 'frequency'
+        const gain = waveform.gain ?? (isFrequency ? 1.5 : 2.5)
+
+        if (waveform.history) {
+            // Scroll in one bar per interval
+            const now = Date.now()
+            if (now - lastHistoryAtRef.current >= waveform.historyIntervalMs) {
+                lastHistoryAtRef.current = now
+                const history = historyRef.current.length === waveform.bars
+                    ? historyRef.current.slice(1)
+                    : new Array(waveform.bars - 1).fill(0)
+                history.push(computePeakLevel(dataArray, gain))
+                historyRef.current = history
+                publishLevels(history)
             }
-            // Normalize to 0-1 range (max deviation is 128)
-            // Apply some amplification for better visibility
-            levels.push(Math.min(1, (maxDeviation / 128) * 2.5))
+        } else if (isFrequency) {
+            // Smoothing is applied by the analyser
+            const frequencyData = new Uint8Array(analyser.frequencyBinCount)
+            analyser.getByteFrequencyData(frequencyData)
+            const nyquist = analyser.context.sampleRate / 2
+            const voiceBins = Math.round(analyser.frequencyBinCount * Math.min(1, MAX_VOICE_FREQUENCY / nyquist))
+            publishLevels(computeFrequencyLevels(frequencyData, waveform.bars, gain, voiceBins))
+        } else {
+            const levels = computeTimeLevels(dataArray, waveform.bars, gain)
+            publishLevels(smoothLevels(levelsRef.current, levels, waveform.smoothing ?? 0))
         }
 
-        setAudioLevels(levels)
-
         // Continue animation loop
         animationFrameRef.current = requestAnimationFrame(updateAudioLevels)
-    }, [])
+    }, [publishLevels])
 
     // Cleanup function
     const cleanup = useCallback(() => {
-        if (durationIntervalRef.current) {
-            clearInterval(durationIntervalRef.current)
-            durationIntervalRef.current = null
-        }
-
-        if (maxDurationTimeoutRef.current) {
-            clearTimeout(maxDurationTimeoutRef.current)
-            maxDurationTimeoutRef.current = null
-        }
+        clearTimers()
 
         if (animationFrameRef.current) {
             cancelAnimationFrame(animationFrameRef.current)
@@ -122,19 +337,22 @@ export function useAudioRecorder(
             streamRef.current = null
         }
 
+        if (pcmWorkletRef.current) {
+            pcmWorkletRef.current.port.onmessage = null
+            pcmWorkletRef.current.disconnect()
+            pcmWorkletRef.current = null
+        }
+
         analyserRef.current = null
         mediaRecorderRef.current = null
         chunksRef.current = []
+        publishLevels([])
         setAudioLevels([])
-    }, [])
-
-    // Stop recording
-    const stopRecording = useCallback(() => {
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-            mediaRecorderRef.current.stop()
-        }
-        setIsRecording(false)
-    }, [])
+        setIsSpeaking(false)
+        setSilenceMs(0)
+        isPausedRef.current = false
+        setIsPaused(false)
+    }, [clearTimers, publishLevels])
 
     // Start recording
     const startRecording = useCallback(async () => {
@@ -144,15 +362,31 @@ export function useAudioRecorder(
         }
 
         // Reset state
+        const recordingId = ++recordingIdRef.current
         setError(null)
         setAudioBlob(null)
         setDuration(0)
+        publishLevels([])
         setAudioLevels([])
         chunksRef.current = []
+        vadRef.current = { speechMs: 0, silenceMs: 0, lastCheckAt: 0 }
 
         try {
             // Get microphone access
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+            const constraints = buildAudioConstraints(configRef.current)
+            let stream: MediaStream
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ audio: constraints })
+            } catch (err) {
+                // The chosen device is gone (e.g. unplugged) - fall back to the default one
+                const isOverconstrained = (err as { name?: string } | null)?.name === 'OverconstrainedError'
+                if (!isOverconstrained || constraints === true || !constraints.deviceId) {
+                    throw err
+                }
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: buildAudioConstraints({ ...configRef.current, deviceId: undefined }),
+                })
+            }
             streamRef.current = stream
 
             // Set up Web Audio API for visualization
@@ -161,11 +395,34 @@ export function useAudioRecorder(
 
             const source = audioContext.createMediaStreamSource(stream)
             const analyser = audioContext.createAnalyser()
-            analyser.fftSize = 256
-            analyser.smoothingTimeConstant = 0.8
+            const waveform = { ...DEFAULT_WAVEFORM, ...configRef.current.waveform }
+            analyser.fftSize = getFftSize(waveform.bars)
+            // Only affects frequency data; time-domain levels are smoothed in the loop
+            analyser.smoothingTimeConstant = waveform.mode === 'frequency' ? waveform.smoothing ?? 0.8 : 0.8
+            historyRef.current = []
+            lastHistoryAtRef.current = 0
             source.connect(analyser)
             analyserRef.current = analyser
 
+            // Raw PCM frames for realtime transcription
+            if (configRef.current.onPcmFrame) {
+                const moduleUrl = URL.createObjectURL(
+                    new Blob([PCM_WORKLET_SOURCE], { type: 'application/javascript' })
+                )
+                try {
+                    await audioContext.audioWorklet.addModule(moduleUrl)
+                } finally {
+                    URL.revokeObjectURL(moduleUrl)
+                }
+                const pcmWorklet = new AudioWorkletNode(audioContext, PCM_WORKLET_NAME, { numberOfOutputs: 0 })
+                pcmWorklet.port.onmessage = (event: MessageEvent<Float32Array>) => {
+                    if (isPausedRef.current) return
+                    configRef.current.onPcmFrame?.(event.data, audioContext.sampleRate)
+                }
+                source.connect(pcmWorklet)
+                pcmWorkletRef.current = pcmWorklet
+            }
+
             // Get supported MIME type
             const mimeType = getSupportedMimeType(config.mimeTypes)
 
@@ -177,22 +434,56 @@ export function useAudioRecorder(
             mediaRecorder.ondataavailable = (event) => {
                 if (event.data.size > 0) {
                     chunksRef.current.push(event.data)
+                    configRef.current.onAudioChunk?.(event.data)
                 }
             }
 
             // Handle recording stop
-            mediaRecorder.onstop = () => {
-                const blob = new Blob(chunksRef.current, {
+            mediaRecorder.onstop = async () => {
+                // Cancelled - already cleaned up
+                if (mediaRecorderRef.current !== mediaRecorder) {
+                    return
+                }
+
+                // Discard recordings without speech instead of sending silence
+                const { discardWithoutSpeech = true } = configRef.current
+                if (discardWithoutSpeech && vadRef.current.speechMs < configRef.current.minSpeechDurationMs) {
+                    setError(new Error('No speech detected'))
+                    cleanup()
+                    return
+                }
+
+                const recorded = new Blob(chunksRef.current, {
                     type: mimeType || 'audio/webm'
                 })
+                // Final duration, not the last 100ms timer tick
+                const finalDuration = getElapsed()
+                cleanup()
+
+                let blob = recorded
+                const { outputFormat, outputSampleRate, normalize } = configRef.current
+                if (outputFormat === 'wav') {
+                    try {
+                        blob = await transcodeToWav(recorded, { sampleRate: outputSampleRate, normalize })
+                    } catch (err) {
+                        if (recordingIdRef.current === recordingId) {
+                            setError(err instanceof Error ? err : new Error('Failed to transcode recording'))
+                        }
+                        return
+                    }
+                    // Cancelled or restarted while transcoding
+                    if (recordingIdRef.current !== recordingId) {
+                        return
+                    }
+                }
+
+                setDuration(finalDuration)
                 setAudioBlob(blob)
 
                 // Call callback if provided
                 if (config.onRecordingComplete) {
                     config.onRecordingComplete(blob)
                 }
-
-                cleanup()
             }
 
             // Handle errors
@@ -205,32 +496,73 @@ export function useAudioRecorder(
             // Start recording
             mediaRecorder.start(100) // Collect data every 100ms
             startTimeRef.current = Date.now()
+            elapsedBeforeRef.current = 0
+            isPausedRef.current = false
             setIsRecording(true)
 
             // Start audio level visualization
             updateAudioLevels()
 
-            // Update duration every 100ms
-            durationIntervalRef.current = setInterval(() => {
-                setDuration(Date.now() - startTimeRef.current)
-            }, 100)
-
-            // Auto-stop at max duration
-            maxDurationTimeoutRef.current = setTimeout(() => {
-                stopRecording()
-            }, config.maxDurationMs)
+            startTimers()
 
         } catch (err) {
-            const errorMessage = err instanceof Error
-                ? err.message
-                : 'Failed to access microphone'
-            setError(new Error(errorMessage))
+            const name = (err as { name?: string } | null)?.name
+            const errorMessage = name === 'NotAllowedError'
+                ? 'Microphone access denied'
+                : err instanceof Error ? err.message : 'Failed to access microphone'
+            const recordError = new Error(errorMessage)
+            // Keep the DOMException name (e.g. NotAllowedError, NotFoundError) for callers
+            if (name) recordError.name = name
+            setError(recordError)
             cleanup()
         }
-    }, [isSupported, config.mimeTypes, config.maxDurationMs, config.onRecordingComplete, cleanup, stopRecording, updateAudioLevels])
+    }, [isSupported, config.mimeTypes, config.onRecordingComplete, cleanup, getElapsed, startTimers, updateAudioLevels, publishLevels])
+
+    // Pause recording - timers and visualization freeze until resumed
+    const pauseRecording = useCallback(() => {
+        const mediaRecorder = mediaRecorderRef.current
+        if (!mediaRecorder || mediaRecorder.state !== 'recording') {
+            return
+        }
+
+        mediaRecorder.pause()
+        elapsedBeforeRef.current = getElapsed()
+        isPausedRef.current = true
+        clearTimers()
+
+        if (animationFrameRef.current) {
+            cancelAnimationFrame(animationFrameRef.current)
+            animationFrameRef.current = null
+        }
+        // Paused time is neither speech nor silence
+        vadRef.current.lastCheckAt = 0
+
+        setDuration(elapsedBeforeRef.current)
+        publishLevels([])
+        setAudioLevels([])
+        setIsSpeaking(false)
+        setIsPaused(true)
+    }, [getElapsed, clearTimers, publishLevels])
+
+    // Resume a paused recording
+    const resumeRecording = useCallback(() => {
+        const mediaRecorder = mediaRecorderRef.current
+        if (!mediaRecorder || mediaRecorder.state !== 'paused') {
+            return
+        }
+
+        mediaRecorder.resume()
+        startTimeRef.current = Date.now()
+        isPausedRef.current = false
+        setIsPaused(false)
+
+        updateAudioLevels()
+        startTimers()
+    }, [startTimers, updateAudioLevels])
 
     // Cancel recording (discard audio)
     const cancelRecording = useCallback(() => {
+        recordingIdRef.current++
         cleanup()
         setIsRecording(false)
         setDuration(0)
@@ -239,11 +571,13 @@ export function useAudioRecorder(
 
     // Reset hook state
     const reset = useCallback(() => {
+        recordingIdRef.current++
         cleanup()
         setIsRecording(false)
         setDuration(0)
         setAudioBlob(null)
         setError(null)
+        publishLevels([])
         setAudioLevels([])
     }, [cleanup])
 
@@ -256,13 +590,19 @@ export function useAudioRecorder(
 
     return {
         isRecording,
+        isPaused,
         isSupported,
         duration,
         audioBlob,
         audioLevels,
+        audioLevelsSource,
+        isSpeaking,
+        silenceMs,
         error,
         startRecording,
         stopRecording,
+        pauseRecording,
+        resumeRecording,
         cancelRecording,
         reset,
     }
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { useRateLimiter } from './useRateLimiter'
+import type { CompletionConfig, UseCompletionOptions, UseCompletionReturn } from '../types'
+
+const DEFAULT_COMPLETION: CompletionConfig = {
+    debounceMs: 300,
+    minLength: 3,
+    rateLimit: {
+        cooldownMs: 0,
+        maxRequests: 30,
+        windowMs: 60000,
+    },
+}
+
+/**
+ * Hook for inline completions while typing.
+ * After a pause in typing, `complete` is asked to continue the text; the
+ * request is aborted as soon as the text changes, and its suggestion only
+ * applies to the text it was made for. Requests are only made with the caret
+ * at the end of the text, and count against their own rate limit budget.
+ *
+ * @param options - Completion transport, settings and the text to complete
+ * @returns Current suggestion and controls
+ */
+export function useCompletion({
+    complete,
+    config = {},
+    text,
+    setText,
+    caret = null,
+    enabled = true,
+}: UseCompletionOptions): UseCompletionReturn {
+    const { debounceMs, minLength } = { ...DEFAULT_COMPLETION, ...config }
+
+    // Separate from any submit budget: keyless limiters keep a private one
+    const limiter = useRateLimiter({ ...DEFAULT_COMPLETION.rateLimit, ...config.rateLimit })
+
+    const [suggestion, setSuggestion] = useState<{ text: string; value: string } | null>(null)
+    const [isCompleting, setIsCompleting] = useState(false)
+
+    // Latest values for the debounce timer
+    const completeRef = useRef(complete)
+    completeRef.current = complete
+    const limiterRef = useRef(limiter)
+    limiterRef.current = limiter
+
+    // Pending timer and request, cancelled when the text changes or on dismiss
+    const cancelRef = useRef<(() => void) | null>(null)
+
+    const isAtEnd = (caret ?? text.length) >= text.length
+    const shouldRequest = Boolean(complete) && enabled && isAtEnd && text.trim().length >= minLength
+
+    // Typing dismisses the suggestion and asks again after a pause
+    useEffect(() => {
+        setSuggestion(null)
+        setIsCompleting(false)
+        if (!shouldRequest) return
+
+        const controller = new AbortController()
+        const timer = setTimeout(() => {
+            const request = completeRef.current
+            if (!request || !limiterRef.current.canRequest) return
+            limiterRef.current.recordRequest()
+            setIsCompleting(true)
+
+            Promise.resolve()
+                .then(() => request(text, { signal: controller.signal }))
+                .then(
+                    (value) => {
+                        if (controller.signal.aborted) return
+                        setIsCompleting(false)
+                        if (value) {
+                            setSuggestion({ text, value })
+                        }
+                    },
+                    () => {
+                        // Suggestions are optional - a failed request shows none
+                        if (controller.signal.aborted) return
+                        setIsCompleting(false)
+                    }
+                )
+        }, debounceMs)
+
+        const cancel = () => {
+            clearTimeout(timer)
+            controller.abort()
+        }
+        cancelRef.current = cancel
+        return cancel
+    }, [text, shouldRequest, debounceMs])
+
+    // Only a suggestion made for the current text applies
+    const current = suggestion && suggestion.text === text && shouldRequest ? suggestion.value : ''
+
+    const accept = useCallback(() => {
+        if (current) {
+            setText(text + current)
+        }
+    }, [current, text, setText])
+
+    const dismiss = useCallback(() => {
+        cancelRef.current?.()
+        setSuggestion(null)
+        setIsCompleting(false)
+    }, [])
+
+    return {
+        suggestion: current,
+        isCompleting,
+        accept,
+        dismiss,
+        requestsRemaining: limiter.requestsRemaining,
+    }
+}
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { createLocalDraftStorage, createSessionDraftStorage } from '../drafts/storage'
+import { toPayloadAttachment } from '../utils/attachments'
+import type { DraftConfig, DraftContent, DraftRecord, DraftStorage, UseDraftOptions, UseDraftReturn } from '../types'
+
+const DEFAULT_DEBOUNCE_MS = 500
+
+// Storages behind the 'local' and 'session' options
+let localDraftStorage: DraftStorage | null = null
+let sessionDraftStorage: DraftStorage | null = null
+
+/**
+ * Resolve the storage option to an adapter
+ */
+function resolveStorage(storage: DraftConfig['storage']): DraftStorage {
+    if (storage === 'session') {
+        return sessionDraftStorage || (sessionDraftStorage = createSessionDraftStorage())
+    }
+    if (!storage || storage === 'local') {
+        return localDraftStorage || (localDraftStorage = createLocalDraftStorage())
+    }
+    return storage
+}
+
+/**
+ * Identity of the content a storage keeps, for telling edits from restored values
+ */
+function getSnapshot(content: Pick<DraftContent, 'text'> & Partial<DraftContent>, storesBlobs: boolean): string {
+    if (!storesBlobs) return content.text
+    const attachments = (content.attachments || []).map((attachment) => attachment.id).join(',')
+    const recording = content.recording ? `${content.recording.durationMs}:${content.recording.blob.size}` : ''
+    return `${content.text}\n${attachments}\n${recording}`
+}
+
+/**
+ * Hook for saving the input as a draft and restoring it.
+ * The draft is saved after `debounceMs` without edits (and when the page is
+ * hidden), and restored on mount. When another tab changes the draft, it is
+ * adopted unless this tab has unsaved edits - those win once saved.
+ *
+ * @param options - Draft configuration, current content and restore callback
+ * @returns Draft controls
+ */
+export function useDraft({ config, content, onRestore }: UseDraftOptions): UseDraftReturn {
+    const key = config?.key
+    const storage = config ? resolveStorage(config.storage) : null
+    const storesBlobs = Boolean(storage?.storesBlobs)
+    const debounceMs = config?.debounceMs ?? DEFAULT_DEBOUNCE_MS
+
+    // Latest values for timers and storage callbacks
+    const contentRef = useRef(content)
+    contentRef.current = content
+    const onRestoreRef = useRef(onRestore)
+    onRestoreRef.current = onRestore
+
+    // Set once the stored draft was read; nothing is saved before
+    const loadedRef = useRef(false)
+    // Content last saved or restored, and when
+    const savedSnapshotRef = useRef('')
+    const updatedAtRef = useRef(0)
+    // Pending save; set while this tab has unsaved edits
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+    const cancelPending = useCallback(() => {
+        if (timerRef.current) {
+            clearTimeout(timerRef.current)
+            timerRef.current = null
+        }
+    }, [])
+
+    // Write the current content, or remove the draft when it is empty
+    const save = useCallback(() => {
+        cancelPending()
+        if (!storage || !key || !loadedRef.current) return
+
+        const current = contentRef.current
+        const snapshot = getSnapshot(current, storesBlobs)
+        if (snapshot === savedSnapshotRef.current) return
+        savedSnapshotRef.current = snapshot
+
+        const isEmpty = !current.text
+            && (!storesBlobs || (current.attachments.length === 0 && !current.recording))
+        let result: void | Promise<void>
+        if (isEmpty) {
+            updatedAtRef.current = 0
+            result = storage.remove(key)
+        } else {
+            const record: DraftRecord = { text: current.text, updatedAt: Date.now() }
+            if (storesBlobs) {
+                record.attachments = current.attachments.map(toPayloadAttachment)
+                record.recording = current.recording || undefined
+            }
+            updatedAtRef.current = record.updatedAt
+            result = storage.set(key, record)
+        }
+        Promise.resolve(result).catch(() => {
+            // Storage full or unavailable - the draft stays in memory only
+        })
+    }, [storage, key, storesBlobs, cancelPending])
+
+    // Apply a stored draft (null when it was removed)
+    const adopt = useCallback((record: DraftRecord | null) => {
+        const restored = {
+            text: record?.text || '',
+            attachments: storesBlobs ? record?.attachments || [] : undefined,
+            recording: storesBlobs ? record?.recording || null : undefined,
+        }
+        updatedAtRef.current = record?.updatedAt || 0
+        savedSnapshotRef.current = getSnapshot(restored, storesBlobs)
+        onRestoreRef.current(restored)
+    }, [storesBlobs])
+
+    // Restore on mount and follow other tabs
+    useEffect(() => {
+        if (!storage || !key) return
+
+        let cancelled = false
+        loadedRef.current = false
+        savedSnapshotRef.current = getSnapshot({ text: '', attachments: [], recording: null }, storesBlobs)
+        updatedAtRef.current = 0
+
+        Promise.resolve(storage.get(key))
+            .catch(() => null)
+            .then((record) => {
+                if (cancelled) return
+                loadedRef.current = true
+                // Anything typed while the draft was loading is kept
+                const current = contentRef.current
+                if (record && !current.text && current.attachments.length === 0 && !current.recording) {
+                    adopt(record)
+                } else {
+                    save()
+                }
+            })
+
+        const unsubscribe = storage.subscribe?.(key, () => {
+            if (timerRef.current || !loadedRef.current) return
+            Promise.resolve(storage.get(key))
+                .catch(() => null)
+                .then((record) => {
+                    // Skip our own writes and changes that arrived while editing
+                    if (cancelled || timerRef.current) return
+                    if ((record?.updatedAt || 0) === updatedAtRef.current) return
+                    adopt(record)
+                })
+        })
+
+        return () => {
+            cancelled = true
+            unsubscribe?.()
+        }
+    }, [storage, key, storesBlobs, adopt, save])
+
+    // Save after a pause in editing
+    const snapshot = getSnapshot(content, storesBlobs)
+    useEffect(() => {
+        if (!storage || !key || !loadedRef.current || snapshot === savedSnapshotRef.current) {
+            return
+        }
+        cancelPending()
+        timerRef.current = setTimeout(save, debounceMs)
+    }, [storage, key, snapshot, debounceMs, save, cancelPending])
+
+    // Save pending edits before the page goes away or the input unmounts
+    useEffect(() => {
+        if (!storage || !key) return
+        const handlePageHide = () => {
+            if (timerRef.current) save()
+        }
+        window.addEventListener('pagehide', handlePageHide)
+        return () => {
+            window.removeEventListener('pagehide', handlePageHide)
+            handlePageHide()
+        }
+    }, [storage, key, save])
+
+    // Remove the saved draft
+    const clear = useCallback(() => {
+        cancelPending()
+        if (!storage || !key) return
+        savedSnapshotRef.current = getSnapshot({ text: '', attachments: [], recording: null }, storesBlobs)
+        updatedAtRef.current = 0
+        Promise.resolve(storage.remove(key)).catch(() => {
+            // Storage unavailable
+        })
+    }, [storage, key, storesBlobs, cancelPending])
+
+    return {
+        clear,
+        flush: save,
+    }
+}
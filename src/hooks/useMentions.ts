@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { findMentionQuery, getMentionToken, insertMention, removeMention } from '../utils/mentions'
+import type { AiInputReference, MentionItem, MentionProvider, UseMentionsOptions, UseMentionsReturn } from '../types'
+
+const DEFAULT_DEBOUNCE_MS = 200
+
+// Stable fallback for the providers option
+const NO_PROVIDERS: MentionProvider[] = []
+
+/**
+ * Hook for mentioning entities with trigger characters (e.g. `@` or `#`).
+ * The word being typed after a trigger is searched in its provider after a
+ * pause in typing; superseded searches are aborted. Chosen entities are
+ * inserted as `trigger + label` tokens and reported as references while
+ * their token is still in the text.
+ *
+ * @param options - Providers and the text to look for mentions in
+ * @returns Mention query, suggestions and references
+ */
+export function useMentions({
+    providers = NO_PROVIDERS,
+    text,
+    setText,
+    caret = null,
+    setCaret,
+}: UseMentionsOptions): UseMentionsReturn {
+    const [chosen, setChosen] = useState<AiInputReference[]>([])
+    const [suggestions, setSuggestions] = useState<MentionItem[]>([])
+    const [isSearching, setIsSearching] = useState(false)
+
+    // Latest providers, so inline arrays don't restart searches on every render
+    const providersRef = useRef(providers)
+    providersRef.current = providers
+
+    // Mentions still present in the text
+    const references = useMemo(
+        () => chosen.filter((reference) => text.includes(getMentionToken(reference))),
+        [chosen, text]
+    )
+
+    const query = providers.length > 0
+        ? findMentionQuery(
+            text,
+            caret ?? text.length,
+            providers.map((provider) => provider.trigger),
+            references.map(getMentionToken)
+        )
+        : null
+
+    // Search the provider after a pause in typing
+    const trigger = query?.trigger
+    const search = query?.query
+    useEffect(() => {
+        const provider = providersRef.current.find((candidate) => candidate.trigger === trigger)
+        if (!provider || search === undefined || search.length < (provider.minQueryLength ?? 0)) {
+            setSuggestions([])
+            setIsSearching(false)
+            return
+        }
+
+        const controller = new AbortController()
+        setIsSearching(true)
+        const timer = setTimeout(() => {
+            Promise.resolve()
+                .then(() => provider.search(search, { signal: controller.signal }))
+                .then(
+                    (items) => {
+                        if (controller.signal.aborted) return
+                        setSuggestions(items)
+                        setIsSearching(false)
+                    },
+                    () => {
+                        // A failed search offers nothing; typing searches again
+                        if (controller.signal.aborted) return
+                        setSuggestions([])
+                        setIsSearching(false)
+                    }
+                )
+        }, provider.debounceMs ?? DEFAULT_DEBOUNCE_MS)
+
+        return () => {
+            clearTimeout(timer)
+            controller.abort()
+        }
+    }, [trigger, search])
+
+    // Replace the typed mention with the entity's token
+    const select = useCallback((item: MentionItem) => {
+        const provider = query && providersRef.current.find((candidate) => candidate.trigger === query.trigger)
+        if (!query || !provider) return null
+
+        const reference: AiInputReference = {
+            type: provider.type ?? provider.trigger,
+            trigger: provider.trigger,
+            id: item.id,
+            label: item.label,
+            data: item.data,
+        }
+        const inserted = insertMention(text, query, getMentionToken(reference))
+        setChosen((prev) => [
+            ...prev.filter((entry) => getMentionToken(entry) !== getMentionToken(reference)),
+            reference,
+        ])
+        setText(inserted.text)
+        setCaret?.(inserted.caret)
+        setSuggestions([])
+        return inserted.caret
+    }, [query, text, setText, setCaret])
+
+    // Take a mention out of the text
+    const remove = useCallback((reference: AiInputReference) => {
+        const token = getMentionToken(reference)
+        setChosen((prev) => prev.filter((entry) => getMentionToken(entry) !== token))
+        setText(removeMention(text, token))
+        setCaret?.(null)
+    }, [text, setText, setCaret])
+
+    const clear = useCallback(() => {
+        setChosen([])
+        setCaret?.(null)
+    }, [setCaret])
+
+    return {
+        query,
+        suggestions: query ? suggestions : [],
+        isSearching: query !== null && isSearching,
+        select,
+        references,
+        remove,
+        clear,
+    }
+}
@@ -0,0 +1,96 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { MicPermission, UseMicPermissionReturn } from '../types'
+
+/**
+ * Whether the browser can capture audio at all
+ */
+function canCaptureAudio(): boolean {
+    return typeof navigator !== 'undefined'
+        && 'mediaDevices' in navigator
+        && 'getUserMedia' in navigator.mediaDevices
+}
+
+/**
+ * Hook for the microphone permission state.
+ * Uses the Permissions API where it supports 'microphone' and follows its
+ * change events; elsewhere the state is 'prompt' until requestPermission() runs.
+ *
+ * @returns Permission state and controls
+ */
+export function useMicPermission(): UseMicPermissionReturn {
+    const [permission, setPermission] = useState<MicPermission>(
+        () => (canCaptureAudio() ? 'prompt' : 'unsupported')
+    )
+
+    // Set while the Permissions API reports the state
+    const hasStatusRef = useRef(false)
+
+    // Record a state seen elsewhere (a recording started, or was denied).
+    // The Permissions API state wins where available.
+    const reportPermission = useCallback((state: MicPermission) => {
+        if (!hasStatusRef.current) {
+            setPermission(state)
+        }
+    }, [])
+
+    // Query once and follow changes (e.g. from site settings or the browser prompt)
+    useEffect(() => {
+        if (!canCaptureAudio() || !navigator.permissions?.query) {
+            return
+        }
+
+        let cancelled = false
+        let status: PermissionStatus | null = null
+        const handleChange = () => {
+            if (status) setPermission(status.state)
+        }
+
+        navigator.permissions
+            .query({ name: 'microphone' as PermissionName })
+            .then((result) => {
+                if (cancelled) return
+                status = result
+                hasStatusRef.current = true
+                setPermission(result.state)
+                result.addEventListener('change', handleChange)
+            })
+            .catch(() => {
+                // 'microphone' is not a queryable permission in this browser
+            })
+
+        return () => {
+            cancelled = true
+            status?.removeEventListener('change', handleChange)
+            hasStatusRef.current = false
+        }
+    }, [])
+
+    // Ask for access by opening (and immediately closing) a microphone stream
+    const requestPermission = useCallback(async (): Promise<MicPermission> => {
+        if (!canCaptureAudio()) {
+            setPermission('unsupported')
+            return 'unsupported'
+        }
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+            stream.getTracks().forEach((track) => track.stop())
+            setPermission('granted')
+            return 'granted'
+        } catch (err) {
+            const name = (err as { name?: string } | null)?.name
+            if (name === 'NotAllowedError' || name === 'SecurityError') {
+                setPermission('denied')
+                return 'denied'
+            }
+            // No device or device busy - permission itself is unchanged
+            return permission
+        }
+    }, [permission])
+
+    return {
+        permission,
+        requestPermission,
+        reportPermission,
+    }
+}
@@ -0,0 +1,167 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { HistoryConfig, UsePromptHistoryOptions, UsePromptHistoryReturn } from '../types'
+
+const DEFAULT_MAX_ENTRIES = 100
+const STORAGE_PREFIX = 'ai-input-history:'
+
+/**
+ * Resolve the storage option, or null when it is unavailable (SSR, privacy mode)
+ */
+function getStorage(storage: HistoryConfig['storage']): Storage | null {
+    try {
+        if (typeof window === 'undefined') return null
+        return storage === 'session' ? window.sessionStorage : window.localStorage
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Read persisted entries, ignoring anything malformed.
+ * Returns null when there is nothing to read from.
+ */
+function readEntries(key: string | undefined, storage: HistoryConfig['storage']): string[] | null {
+    const store = key ? getStorage(storage) : null
+    if (!store) return null
+    try {
+        const value: unknown = JSON.parse(store.getItem(STORAGE_PREFIX + key) || '[]')
+        return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : []
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Persist entries, removing the key when there are none
+ */
+function writeEntries(key: string | undefined, storage: HistoryConfig['storage'], entries: string[]): void {
+    const store = key ? getStorage(storage) : null
+    if (!store) return
+    try {
+        if (entries.length > 0) {
+            store.setItem(STORAGE_PREFIX + key, JSON.stringify(entries))
+        } else {
+            store.removeItem(STORAGE_PREFIX + key)
+        }
+    } catch {
+        // Storage full or blocked - the history stays in memory only
+    }
+}
+
+/**
+ * Hook for recalling previously sent prompts, shell-style.
+ * A repeated prompt moves to the end instead of being stored twice, and the
+ * oldest entries are dropped beyond `maxEntries`. With a `key`, entries are
+ * persisted and prompts sent in other tabs are picked up.
+ *
+ * @param options - History configuration; nothing is kept without it
+ * @returns Entries, navigation and search
+ */
+export function usePromptHistory({ config }: UsePromptHistoryOptions = {}): UsePromptHistoryReturn {
+    const enabled = Boolean(config)
+    const maxEntries = config?.maxEntries ?? DEFAULT_MAX_ENTRIES
+    const key = config?.key
+    const storage = config?.storage
+
+    const [entries, setEntries] = useState<string[]>(() => readEntries(key, storage) || [])
+    const [index, setIndex] = useState<number | null>(null)
+
+    // Latest values, so repeated key presses between renders move step by step
+    const entriesRef = useRef(entries)
+    const indexRef = useRef<number | null>(null)
+    // Prompt being written when navigation started
+    const draftRef = useRef('')
+
+    const updateEntries = useCallback((next: string[]) => {
+        entriesRef.current = next
+        setEntries(next)
+    }, [])
+
+    const moveTo = useCallback((next: number | null) => {
+        indexRef.current = next
+        setIndex(next)
+    }, [])
+
+    // Load persisted entries when the key changes, and follow other tabs
+    useEffect(() => {
+        updateEntries((readEntries(key, storage) || []).slice(-maxEntries))
+        if (!key || typeof window === 'undefined') return
+
+        const handleStorage = (event: StorageEvent) => {
+            // A null key means the whole storage was cleared
+            if ((event.key === null || event.key === STORAGE_PREFIX + key) && event.storageArea === getStorage(storage)) {
+                updateEntries((readEntries(key, storage) || []).slice(-maxEntries))
+            }
+        }
+        window.addEventListener('storage', handleStorage)
+        return () => window.removeEventListener('storage', handleStorage)
+    }, [key, storage, maxEntries, updateEntries])
+
+    const resetNavigation = useCallback(() => {
+        draftRef.current = ''
+        moveTo(null)
+    }, [moveTo])
+
+    // Record a sent prompt
+    const add = useCallback((text: string) => {
+        resetNavigation()
+        if (!enabled || !text.trim()) return
+
+        // Start from the stored entries so prompts sent in other tabs are kept
+        const current = readEntries(key, storage) || entriesRef.current
+        const next = [...current.filter((entry) => entry !== text), text].slice(-maxEntries)
+        updateEntries(next)
+        writeEntries(key, storage, next)
+    }, [enabled, key, storage, maxEntries, resetNavigation, updateEntries])
+
+    // Move through the entries; past the newest one the kept prompt comes back
+    const navigate = useCallback((target: 'previous' | 'next' | number, current: string): string | null => {
+        const list = entriesRef.current
+        const position = indexRef.current
+        if (!enabled || list.length === 0) return null
+
+        let next: number | null
+        if (target === 'previous') {
+            next = position === null ? list.length - 1 : Math.max(0, position - 1)
+        } else if (target === 'next') {
+            next = position !== null && position + 1 < list.length ? position + 1 : null
+        } else {
+            if (target < 0 || target >= list.length) return null
+            next = target
+        }
+        if (next === position) return null
+
+        if (position === null) {
+            draftRef.current = current
+        }
+        moveTo(next)
+        return next === null ? draftRef.current : list[next]
+    }, [enabled, moveTo])
+
+    // Newest match first, like reverse-i-search
+    const search = useCallback((query: string, before?: number): number | null => {
+        const needle = query.toLowerCase()
+        if (!needle) return null
+        const list = entriesRef.current
+        for (let i = Math.min(before ?? list.length, list.length) - 1; i >= 0; i--) {
+            if (list[i].toLowerCase().includes(needle)) return i
+        }
+        return null
+    }, [])
+
+    const clear = useCallback(() => {
+        resetNavigation()
+        updateEntries([])
+        writeEntries(key, storage, [])
+    }, [key, storage, resetNavigation, updateEntries])
+
+    return {
+        entries,
+        index,
+        add,
+        navigate,
+        search,
+        resetNavigation,
+        clear,
+    }
+}
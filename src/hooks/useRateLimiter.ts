@@ -1,5 +1,6 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
-import type { UseRateLimiterOptions, UseRateLimiterReturn } from '../types'
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { RateLimiter } from '../rateLimit/limiter'
+import type { ServerRateLimit, UseRateLimiterOptions, UseRateLimiterReturn } from '../types'
 
 const DEFAULT_OPTIONS: UseRateLimiterOptions = {
     cooldownMs: 1000,
@@ -10,10 +11,12 @@ const DEFAULT_OPTIONS: UseRateLimiterOptions = {
 /**
  * Hook for soft rate limiting at the UI level.
  * Provides UX protection by tracking requests and enforcing cooldowns.
- * 
- * Note: This is not a security measure. Actual rate limiting 
+ * With a `key`, the budget is shared with other limiters using that key,
+ * and with `storage: 'local'` it survives reloads and is shared across tabs.
+ *
+ * Note: This is not a security measure. Actual rate limiting
  * should be handled by the AI provider or backend.
- * 
+ *
  * @param options - Rate limiting configuration
  * @returns Rate limiter state and controls
  */
@@ -22,90 +25,67 @@ export function useRateLimiter(
 ): UseRateLimiterReturn {
     const config = { ...DEFAULT_OPTIONS, ...options }
 
-    // Track request timestamps within the window
-    const requestTimestamps = useRef<number[]>([])
-
-    // Cooldown state
-    const [cooldownEnd, setCooldownEnd] = useState<number>(0)
-    const [cooldownRemaining, setCooldownRemaining] = useState<number>(0)
-
-    // Force re-render for requestsRemaining updates
+    // The budget lives in the limiter; key and storage select which one.
+    // Limits are updated on every render.
+    const limiter = useMemo(() => new RateLimiter(config), [config.key, config.storage, config.crossTab])
+    limiter.update({
+        cooldownMs: config.cooldownMs,
+        maxRequests: config.maxRequests,
+        windowMs: config.windowMs,
+        strategy: config.strategy,
+    })
+
+    // Force re-render when the budget changes or time passes
     const [, forceUpdate] = useState({})
 
-    // Cleanup old timestamps and calculate remaining requests
-    const cleanupAndCount = useCallback(() => {
-        const now = Date.now()
-        const windowStart = now - config.windowMs
-
-        // Remove timestamps outside the window
-        requestTimestamps.current = requestTimestamps.current.filter(
-            (ts) => ts > windowStart
-        )
-
-        return config.maxRequests - requestTimestamps.current.length
-    }, [config.windowMs, config.maxRequests])
+    // Follow changes from other limiters and tabs
+    useEffect(() => {
+        return limiter.subscribe(() => forceUpdate({}))
+    }, [limiter])
 
-    // Update cooldown remaining
+    // Tick while waiting for the cooldown or window to reopen
+    const waitTime = limiter.getWaitTime()
+    const isWaiting = waitTime > 0 && waitTime !== Infinity
     useEffect(() => {
-        if (cooldownEnd <= Date.now()) {
-            setCooldownRemaining(0)
-            return
-        }
+        if (!isWaiting) return
 
         const interval = setInterval(() => {
-            const remaining = Math.max(0, cooldownEnd - Date.now())
-            setCooldownRemaining(remaining)
-
-            if (remaining === 0) {
+            forceUpdate({})
+            if (limiter.getWaitTime() === 0) {
                 clearInterval(interval)
             }
         }, 100)
 
         return () => clearInterval(interval)
-    }, [cooldownEnd])
-
-    // Check if request is allowed
-    const canRequest = useCallback(() => {
-        const now = Date.now()
-
-        // Check cooldown
-        if (now < cooldownEnd) {
-            return false
-        }
-
-        // Check request count
-        return cleanupAndCount() > 0
-    }, [cooldownEnd, cleanupAndCount])
-
-    // Record a request
-    const recordRequest = useCallback(() => {
-        const now = Date.now()
+    }, [limiter, isWaiting])
 
-        // Add timestamp
-        requestTimestamps.current.push(now)
+    // Live readings, for callers that can't wait for a re-render
+    const getWaitTime = useCallback(() => limiter.getWaitTime(), [limiter])
+    const getRequestsRemaining = useCallback(() => limiter.getRequestsRemaining(), [limiter])
 
-        // Start cooldown
-        const newCooldownEnd = now + config.cooldownMs
-        setCooldownEnd(newCooldownEnd)
-        setCooldownRemaining(config.cooldownMs)
+    // Record a request with its cost
+    const recordRequest = useCallback((cost?: number) => {
+        limiter.recordRequest(cost)
+    }, [limiter])
 
-        // Trigger re-render
-        forceUpdate({})
-    }, [config.cooldownMs])
+    // Apply a rate limit reported by the server
+    const applyServerLimit = useCallback((limit: ServerRateLimit) => {
+        limiter.applyServerLimit(limit)
+    }, [limiter])
 
     // Reset rate limiter
     const reset = useCallback(() => {
-        requestTimestamps.current = []
-        setCooldownEnd(0)
-        setCooldownRemaining(0)
-        forceUpdate({})
-    }, [])
+        limiter.reset()
+    }, [limiter])
 
     return {
-        canRequest: canRequest(),
-        cooldownRemaining,
-        requestsRemaining: cleanupAndCount(),
+        canRequest: waitTime === 0,
+        cooldownRemaining: limiter.getCooldownRemaining(),
+        requestsRemaining: limiter.getRequestsRemaining(),
+        getWaitTime,
+        getRequestsRemaining,
         recordRequest,
+        applyServerLimit,
         reset,
     }
 }
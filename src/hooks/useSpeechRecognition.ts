@@ -0,0 +1,165 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { createWebSpeechEngine } from '../recognition/webSpeech'
+import type { UseSpeechRecognitionOptions, UseSpeechRecognitionReturn, RecognitionSession } from '../types'
+
+const defaultEngine = createWebSpeechEngine()
+
+/**
+ * Append a recognized segment to existing text with a single separating space
+ */
+export function appendTranscript(text: string, segment: string): string {
+    const trimmed = segment.trim()
+    if (!trimmed) return text
+    if (!text || /\s$/.test(text)) return text + trimmed
+    return `${text} ${trimmed}`
+}
+
+/**
+ * Hook for live speech recognition through a pluggable engine.
+ * Defaults to the browser's Web Speech API.
+ *
+ * @param options - Recognition configuration and callbacks
+ * @returns Recognition state and controls
+ */
+export function useSpeechRecognition(
+    options: UseSpeechRecognitionOptions = {}
+): UseSpeechRecognitionReturn {
+    const engine = options.engine || defaultEngine
+    const language = options.language
+        || (typeof navigator !== 'undefined' && navigator.language)
+        || 'en-US'
+    const continuous = options.continuous ?? true
+
+    const [isListening, setIsListening] = useState(false)
+    const [transcript, setTranscript] = useState('')
+    const [interimTranscript, setInterimTranscript] = useState('')
+    const [duration, setDuration] = useState(0)
+    const [error, setError] = useState<Error | null>(null)
+
+    const sessionRef = useRef<RecognitionSession | null>(null)
+    const transcriptRef = useRef('')
+    // Incremented per session and on abort; callbacks from older sessions are ignored
+    const sessionIdRef = useRef(0)
+    const startTimeRef = useRef<number>(0)
+    const durationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+    // Latest callbacks, so a running session always reports to the current render
+    const callbacksRef = useRef(options)
+    callbacksRef.current = options
+
+    const isSupported = engine.isSupported()
+
+    // Cleanup function
+    const cleanup = useCallback(() => {
+        if (durationIntervalRef.current) {
+            clearInterval(durationIntervalRef.current)
+            durationIntervalRef.current = null
+        }
+        sessionRef.current = null
+        setIsListening(false)
+        setInterimTranscript('')
+    }, [])
+
+    // Start listening
+    const start = useCallback(() => {
+        if (sessionRef.current) {
+            return
+        }
+        if (!isSupported) {
+            setError(new Error('Speech recognition is not supported in this browser'))
+            return
+        }
+
+        // Reset state
+        setError(null)
+        setTranscript('')
+        setInterimTranscript('')
+        setDuration(0)
+        transcriptRef.current = ''
+        const sessionId = ++sessionIdRef.current
+        const isCurrent = () => sessionIdRef.current === sessionId
+
+        try {
+            sessionRef.current = engine.start({
+                language,
+                continuous,
+                onResult: (result) => {
+                    if (!isCurrent()) return
+                    if (result.isFinal) {
+                        transcriptRef.current = appendTranscript(transcriptRef.current, result.transcript)
+                        setTranscript(transcriptRef.current)
+                        setInterimTranscript('')
+                        callbacksRef.current.onFinalTranscript?.(result.transcript.trim())
+                    } else {
+                        setInterimTranscript(result.transcript)
+                    }
+                },
+                onError: (err) => {
+                    if (!isCurrent()) return
+                    setError(err)
+                },
+                onEnd: () => {
+                    if (!isCurrent()) return
+                    cleanup()
+                    callbacksRef.current.onEnd?.(transcriptRef.current)
+                },
+            })
+
+            startTimeRef.current = Date.now()
+            setIsListening(true)
+
+            // Update duration every 100ms
+            durationIntervalRef.current = setInterval(() => {
+                setDuration(Date.now() - startTimeRef.current)
+            }, 100)
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Failed to start speech recognition'))
+            cleanup()
+        }
+    }, [engine, isSupported, language, continuous, cleanup])
+
+    // Stop listening - remaining results are delivered before onEnd
+    const stop = useCallback(() => {
+        sessionRef.current?.stop()
+    }, [])
+
+    // Stop listening and discard pending results
+    const abort = useCallback(() => {
+        sessionIdRef.current++
+        sessionRef.current?.abort()
+        cleanup()
+    }, [cleanup])
+
+    // Reset hook state
+    const reset = useCallback(() => {
+        abort()
+        setTranscript('')
+        setDuration(0)
+        setError(null)
+        transcriptRef.current = ''
+    }, [abort])
+
+    // Abort on unmount
+    useEffect(() => {
+        return () => {
+            sessionIdRef.current++
+            sessionRef.current?.abort()
+            if (durationIntervalRef.current) {
+                clearInterval(durationIntervalRef.current)
+            }
+        }
+    }, [])
+
+    return {
+        isListening,
+        isSupported,
+        transcript,
+        interimTranscript,
+        duration,
+        error,
+        start,
+        stop,
+        abort,
+        reset,
+    }
+}
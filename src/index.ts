@@ -1,10 +1,50 @@
 // Components
 export { AiInput } from './components/AiInput'
+export { Waveform } from './components/Waveform'
 
 // Hooks (for headless usage)
 export { useAiInput } from './hooks/useAiInput'
 export { useAudioRecorder } from './hooks/useAudioRecorder'
 export { useRateLimiter } from './hooks/useRateLimiter'
+export { useSpeechRecognition } from './hooks/useSpeechRecognition'
+export { useAudioPlayback } from './hooks/useAudioPlayback'
+export { useAudioDevices } from './hooks/useAudioDevices'
+export { useMicPermission } from './hooks/useMicPermission'
+export { useDraft } from './hooks/useDraft'
+export { usePromptHistory } from './hooks/usePromptHistory'
+export { useMentions } from './hooks/useMentions'
+export { useCompletion } from './hooks/useCompletion'
+
+// Speech recognition engines
+export { createWebSpeechEngine } from './recognition/webSpeech'
+export { createWebSocketTranscriber } from './recognition/websocket'
+
+// Provider transports
+export { createOpenAITransport } from './transports/openai'
+export { createAnthropicTransport } from './transports/anthropic'
+export { createOllamaTransport } from './transports/ollama'
+export { TransportError } from './transports/errors'
+export type { TransportErrorCode } from './transports/errors'
+
+// Rate limiting
+export { RateLimiter } from './rateLimit/limiter'
+export { createMemoryRateLimitStorage, createLocalRateLimitStorage } from './rateLimit/storage'
+export { RateLimitError } from './rateLimit/errors'
+export { readRateLimitHeaders } from './rateLimit/server'
+
+// Drafts
+export { createLocalDraftStorage, createSessionDraftStorage } from './drafts/storage'
+export { createIndexedDBDraftStorage } from './drafts/indexedDB'
+
+// Stream parsing
+export { parseSSE, parseNDJSON, streamText, extractTextDelta } from './utils/sse'
+export { extractTranscriptionText } from './utils/transcription'
+
+// Audio processing
+export { encodeWav } from './utils/wav'
+export { transcodeToWav, downmixToMono, normalizePeak } from './utils/transcode'
+export { resampleLinear, floatToPcm16 } from './utils/pcm'
+export { computeTimeLevels, computeFrequencyLevels, computePeakLevel, smoothLevels } from './utils/levels'
 
 // Types
 export type {
@@ -13,21 +53,118 @@ export type {
 
     // Configuration
     RateLimitConfig,
+    RateLimitStrategy,
+    RateLimitRequestType,
+    RateLimitBudget,
+    RateLimitWeights,
+    RateLimitRecord,
+    RateLimitStorage,
+    RateLimiterOptions,
+    ServerRateLimit,
     AudioConfig,
+    AudioOutputFormat,
+    AudioTranscodeOptions,
+    MicPermission,
+    WaveformMode,
+    WaveformConfig,
+    AudioLevelsSource,
+    AttachmentConfig,
+    RetryConfig,
+    TranscriptionMode,
+    DraftConfig,
+    DraftRecord,
+    DraftRecording,
+    DraftStorage,
+    HistoryConfig,
+    CompletionConfig,
+    SpeechRecognitionConfig,
+
+    // Speech Recognition
+    RecognitionEngine,
+    RecognitionSession,
+    RecognitionStartOptions,
+    RecognitionResult,
+
+    // Streaming Transcription
+    AudioChunk,
+    StreamingTranscriber,
+    StreamingTranscriberSession,
+    StreamingTranscriberStartOptions,
+    WebSocketTranscriberOptions,
+    WebSocketConstructor,
 
     // Transport
     SendFunction,
+    SendContext,
+    CompleteFunction,
+    PayloadMode,
+    AiInputTransport,
+
+    // Payload
+    AiInputPayload,
+    AiInputTextPayload,
+    AiInputAudioPayload,
+    AiInputMixedPayload,
+    AiInputAudio,
+    AiInputAttachment,
+    StreamingResponse,
+
+    // Slash Commands
+    SlashCommand,
+    SlashCommandArgument,
+    SlashCommandContext,
+    SlashCommandResult,
+
+    // Mentions
+    MentionItem,
+    MentionProvider,
+    MentionQuery,
+    AiInputReference,
+
+    // Stream Parsing
+    ServerSentEvent,
+    SSEParseOptions,
+    StreamFormat,
+    DeltaExtractor,
+    StreamTextOptions,
+
+    // Provider Transports
+    ProviderTransportOptions,
+    OpenAITransportOptions,
+    AnthropicTransportOptions,
+    OllamaTransportOptions,
+    TransportResult,
+    ProviderTransport,
 
     // Component Props
     AiInputProps,
+    AiInputBaseProps,
     AiInputRenderProps,
+    WaveformProps,
 
     // Hook Types
     UseRateLimiterOptions,
     UseRateLimiterReturn,
     UseAudioRecorderOptions,
     UseAudioRecorderReturn,
+    UseSpeechRecognitionOptions,
+    UseSpeechRecognitionReturn,
+    UseAudioPlaybackOptions,
+    UseAudioPlaybackReturn,
+    UseAudioDevicesOptions,
+    UseAudioDevicesReturn,
+    UseMicPermissionReturn,
+    UseDraftOptions,
+    UseDraftReturn,
+    DraftContent,
+    UsePromptHistoryOptions,
+    UsePromptHistoryReturn,
+    UseMentionsOptions,
+    UseMentionsReturn,
+    UseCompletionOptions,
+    UseCompletionReturn,
     UseAiInputOptions,
+    UseAiInputBaseOptions,
     UseAiInputReturn,
 
     // Legacy
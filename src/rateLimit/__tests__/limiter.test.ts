@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+import { RateLimiter } from '../limiter'
+import type { RateLimiterOptions } from '../../types'
+
+/**
+ * Limiter on a manual clock, advanced with tick()
+ */
+function createLimiter(options: Partial<RateLimiterOptions> = {}) {
+    let time = 1_000_000
+    const limiter = new RateLimiter({
+        cooldownMs: 0,
+        maxRequests: 3,
+        windowMs: 1000,
+        now: () => time,
+        ...options,
+    })
+    return {
+        limiter,
+        tick: (ms: number) => {
+            time += ms
+        },
+    }
+}
+
+describe('RateLimiter', () => {
+    describe('sliding window', () => {
+        it('allows maxRequests per window and frees each request as it leaves the window', () => {
+            const { limiter, tick } = createLimiter()
+
+            limiter.recordRequest()
+            tick(200)
+            limiter.recordRequest()
+            tick(200)
+            limiter.recordRequest()
+
+            expect(limiter.canRequest()).toBe(false)
+            expect(limiter.getRequestsRemaining()).toBe(0)
+            // The first request leaves the window 1000ms after it was made
+            expect(limiter.getWaitTime()).toBe(600)
+
+            tick(599)
+            expect(limiter.canRequest()).toBe(false)
+            tick(1)
+            expect(limiter.canRequest()).toBe(true)
+            expect(limiter.getRequestsRemaining()).toBe(1)
+
+            tick(400)
+            expect(limiter.getRequestsRemaining()).toBe(3)
+        })
+
+        it('waits until enough weight has left the window for weighted requests', () => {
+            const { limiter, tick } = createLimiter({ maxRequests: 10 })
+
+            limiter.recordRequest(2)
+            tick(100)
+            limiter.recordRequest(3)
+            tick(100)
+            expect(limiter.getRequestsRemaining()).toBe(5)
+
+            // A heavy request may overdraw the budget...
+            limiter.recordRequest(8)
+            expect(limiter.getRequestsRemaining()).toBe(0)
+            // ...then the first two requests must leave before one unit is free again
+            expect(limiter.getWaitTime()).toBe(900)
+
+            tick(800)
+            expect(limiter.getWaitTime()).toBe(100)
+            tick(100)
+            expect(limiter.getRequestsRemaining()).toBe(2)
+        })
+
+        it('never allows requests with a budget of zero', () => {
+            const { limiter } = createLimiter({ maxRequests: 0 })
+
+            expect(limiter.canRequest()).toBe(false)
+            expect(limiter.getWaitTime()).toBe(Infinity)
+        })
+    })
+
+    describe('token bucket', () => {
+        it('refills the whole bucket over one window', () => {
+            const { limiter, tick } = createLimiter({ strategy: 'token-bucket', maxRequests: 4 })
+
+            limiter.recordRequest()
+            limiter.recordRequest()
+            limiter.recordRequest()
+            limiter.recordRequest()
+
+            expect(limiter.getRequestsRemaining()).toBe(0)
+            // One token takes windowMs / maxRequests to refill
+            expect(limiter.getWaitTime()).toBe(250)
+
+            tick(250)
+            expect(limiter.getRequestsRemaining()).toBe(1)
+            tick(500)
+            expect(limiter.getRequestsRemaining()).toBe(3)
+            tick(5000)
+            expect(limiter.getRequestsRemaining()).toBe(4)
+        })
+
+        it('waits for an overdrawn bucket to refill past one token', () => {
+            const { limiter, tick } = createLimiter({ strategy: 'token-bucket', maxRequests: 4 })
+
+            limiter.recordRequest(6)
+
+            // -2 tokens: three tokens' worth of refill is needed
+            expect(limiter.getWaitTime()).toBe(750)
+            tick(750)
+            expect(limiter.canRequest()).toBe(true)
+        })
+    })
+
+    describe('cooldown', () => {
+        it('blocks requests for cooldownMs after each request', () => {
+            const { limiter, tick } = createLimiter({ cooldownMs: 300, maxRequests: 10 })
+
+            limiter.recordRequest()
+
+            expect(limiter.canRequest()).toBe(false)
+            expect(limiter.getCooldownRemaining()).toBe(300)
+            expect(limiter.getWaitTime()).toBe(300)
+            expect(limiter.getRequestsRemaining()).toBe(9)
+
+            tick(300)
+            expect(limiter.canRequest()).toBe(true)
+            expect(limiter.getCooldownRemaining()).toBe(0)
+        })
+
+        it('waits for the longer of the cooldown and the budget', () => {
+            const { limiter, tick } = createLimiter({ cooldownMs: 500, maxRequests: 1 })
+
+            limiter.recordRequest()
+            expect(limiter.getWaitTime()).toBe(1000)
+
+            limiter.update({ cooldownMs: 2000 })
+            limiter.recordRequest()
+            expect(limiter.getWaitTime()).toBe(2000)
+            tick(2000)
+            expect(limiter.canRequest()).toBe(true)
+        })
+    })
+
+    describe('applyServerLimit', () => {
+        it('blocks requests for exactly retryAfterMs', () => {
+            const { limiter, tick } = createLimiter()
+
+            limiter.applyServerLimit({ retryAfterMs: 1500 })
+
+            expect(limiter.getCooldownRemaining()).toBe(1500)
+            expect(limiter.getWaitTime()).toBe(1500)
+            // The local budget is untouched
+            expect(limiter.getRequestsRemaining()).toBe(3)
+
+            tick(1499)
+            expect(limiter.canRequest()).toBe(false)
+            tick(1)
+            expect(limiter.canRequest()).toBe(true)
+        })
+
+        it("caps the budget at the server's count and decrements it per request until the reset", () => {
+            const { limiter, tick } = createLimiter({ maxRequests: 10, windowMs: 60_000 })
+
+            limiter.applyServerLimit({ remaining: 2, resetMs: 5000 })
+            expect(limiter.getRequestsRemaining()).toBe(2)
+
+            limiter.recordRequest()
+            expect(limiter.getRequestsRemaining()).toBe(1)
+            limiter.recordRequest()
+            expect(limiter.getRequestsRemaining()).toBe(0)
+            // Out of server requests until its window resets
+            expect(limiter.getWaitTime()).toBe(5000)
+
+            tick(5000)
+            expect(limiter.canRequest()).toBe(true)
+            expect(limiter.getRequestsRemaining()).toBe(8)
+        })
+
+        it('keeps the server count for one local window without a reset time', () => {
+            const { limiter, tick } = createLimiter({ maxRequests: 10 })
+
+            limiter.applyServerLimit({ remaining: 0 })
+            expect(limiter.getWaitTime()).toBe(1000)
+
+            tick(1000)
+            expect(limiter.getRequestsRemaining()).toBe(10)
+        })
+    })
+
+    it('shares one budget between limiters with the same key and notifies subscribers', () => {
+        let time = 0
+        const options = { cooldownMs: 0, maxRequests: 2, windowMs: 1000, key: 'limiter-test-shared', now: () => time }
+        const first = new RateLimiter(options)
+        const second = new RateLimiter(options)
+        let notified = 0
+        const unsubscribe = second.subscribe(() => notified++)
+
+        first.recordRequest()
+        time += 10
+        first.recordRequest()
+
+        expect(second.canRequest()).toBe(false)
+        expect(notified).toBe(2)
+
+        second.reset()
+        expect(first.getRequestsRemaining()).toBe(2)
+        unsubscribe()
+    })
+
+    it('keeps keyless budgets separate', () => {
+        const { limiter: first } = createLimiter({ maxRequests: 1 })
+        const { limiter: second } = createLimiter({ maxRequests: 1 })
+
+        first.recordRequest()
+
+        expect(first.canRequest()).toBe(false)
+        expect(second.canRequest()).toBe(true)
+    })
+})
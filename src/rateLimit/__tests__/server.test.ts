@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getErrorRateLimit, parseDelayHeader, readRateLimitHeaders } from '../server'
+import { RateLimitError } from '../errors'
+import { RateLimiter } from '../limiter'
+import { TransportError } from '../../transports/errors'
+import { sendJson, startFakeServer } from '../../transports/__tests__/fakeServer'
+import type { FakeServer } from '../../transports/__tests__/fakeServer'
+
+// Whole second, so HTTP dates round-trip exactly
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0)
+
+describe('readRateLimitHeaders', () => {
+    let server: FakeServer | undefined
+
+    beforeEach(() => {
+        // Only the clock: the fake server still needs real timers
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(NOW)
+    })
+
+    afterEach(async () => {
+        vi.useRealTimers()
+        await server?.close()
+        server = undefined
+    })
+
+    /**
+     * Fetch a response carrying the given headers from the fake server
+     */
+    async function fetchWithHeaders(headers: Record<string, string>, status = 200): Promise<Response> {
+        server = await startFakeServer((_request, response) => sendJson(response, {}, status, headers))
+        return fetch(`${server.baseUrl}/chat`)
+    }
+
+    it('reads Retry-After in seconds', async () => {
+        const response = await fetchWithHeaders({ 'Retry-After': '30' }, 429)
+
+        expect(readRateLimitHeaders(response)).toEqual({ retryAfterMs: 30000, resetMs: undefined })
+    })
+
+    it('reads Retry-After as an HTTP date', async () => {
+        const response = await fetchWithHeaders({ 'Retry-After': new Date(NOW + 90_000).toUTCString() }, 429)
+
+        expect(readRateLimitHeaders(response)?.retryAfterMs).toBe(90_000)
+    })
+
+    it('treats a Retry-After date in the past as no wait', async () => {
+        const response = await fetchWithHeaders({ 'Retry-After': new Date(NOW - 5000).toUTCString() }, 429)
+
+        expect(readRateLimitHeaders(response)?.retryAfterMs).toBe(0)
+    })
+
+    it('prefers retry-after-ms over Retry-After', async () => {
+        const response = await fetchWithHeaders({ 'retry-after-ms': '1250', 'Retry-After': '2' }, 429)
+
+        expect(readRateLimitHeaders(response)?.retryAfterMs).toBe(1250)
+    })
+
+    it('reads the remaining count with a reset given as a delay', async () => {
+        const response = await fetchWithHeaders({
+            'x-ratelimit-remaining-requests': '42',
+            'x-ratelimit-reset-requests': '1m30s',
+        })
+
+        expect(readRateLimitHeaders(response)).toEqual({ retryAfterMs: undefined, remaining: 42, resetMs: 90_000 })
+    })
+
+    it('reads a reset given as a Unix timestamp', async () => {
+        const response = await fetchWithHeaders({
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': String(NOW / 1000 + 20),
+        })
+
+        expect(readRateLimitHeaders(response)).toEqual({ retryAfterMs: undefined, remaining: 0, resetMs: 20_000 })
+    })
+
+    it('reads an Anthropic reset given as an ISO date', async () => {
+        const response = await fetchWithHeaders({
+            'anthropic-ratelimit-requests-remaining': '3',
+            'anthropic-ratelimit-requests-reset': new Date(NOW + 15_000).toISOString(),
+        })
+
+        expect(readRateLimitHeaders(response)).toMatchObject({ remaining: 3, resetMs: 15_000 })
+    })
+
+    it('falls back to the reset time on a 429 without Retry-After', async () => {
+        const response = await fetchWithHeaders({ 'ratelimit-remaining': '0', 'ratelimit-reset': '12' }, 429)
+
+        expect(readRateLimitHeaders(response)).toEqual({ retryAfterMs: 12_000, remaining: 0, resetMs: 12_000 })
+    })
+
+    it('returns null without rate limit headers', async () => {
+        const response = await fetchWithHeaders({})
+
+        expect(readRateLimitHeaders(response)).toBeNull()
+        expect(readRateLimitHeaders('plain text')).toBeNull()
+        expect(readRateLimitHeaders(null)).toBeNull()
+    })
+
+    it('ignores garbage header values', async () => {
+        const response = await fetchWithHeaders({
+            'Retry-After': 'soon',
+            'x-ratelimit-remaining': 'lots',
+            'x-ratelimit-reset': 'whenever',
+        }, 429)
+
+        expect(readRateLimitHeaders(response)).toBeNull()
+    })
+})
+
+describe('parseDelayHeader', () => {
+    it('reads seconds, timestamps, durations and dates', () => {
+        expect(parseDelayHeader('1.5', NOW)).toBe(1500)
+        expect(parseDelayHeader(String(NOW / 1000 + 2), NOW)).toBe(2000)
+        expect(parseDelayHeader('250ms', NOW)).toBe(250)
+        expect(parseDelayHeader('1h2m3s', NOW)).toBe(3_723_000)
+        expect(parseDelayHeader(new Date(NOW + 4000).toUTCString(), NOW)).toBe(4000)
+        expect(parseDelayHeader('', NOW)).toBeUndefined()
+        expect(parseDelayHeader(null, NOW)).toBeUndefined()
+        expect(parseDelayHeader('in a bit', NOW)).toBeUndefined()
+    })
+})
+
+describe('getErrorRateLimit', () => {
+    it('reads a RateLimitError', () => {
+        const error = new RateLimitError('Slow down', { retryAfterMs: 5000, remaining: 0, resetMs: 60_000 })
+
+        expect(getErrorRateLimit(error)).toEqual({ retryAfterMs: 5000, remaining: 0, resetMs: 60_000 })
+    })
+
+    it('reads a rate-limit TransportError only when it carries a retry time', () => {
+        const withWait = new TransportError('Rate limited', { code: 'rate-limit', provider: 'openai', retryAfterMs: 2000 })
+        const withoutWait = new TransportError('Rate limited', { code: 'rate-limit', provider: 'openai' })
+        const server = new TransportError('Overloaded', { code: 'server', provider: 'openai', retryAfterMs: 2000 })
+
+        expect(getErrorRateLimit(withWait)).toEqual({ retryAfterMs: 2000 })
+        expect(getErrorRateLimit(withoutWait)).toBeNull()
+        expect(getErrorRateLimit(server)).toBeNull()
+        expect(getErrorRateLimit(new Error('Request failed'))).toBeNull()
+    })
+
+    it('blocks the limiter for exactly the period from a 429 response', async () => {
+        const server = await startFakeServer((_request, response) => sendJson(
+            response,
+            { error: 'rate limited' },
+            429,
+            { 'Retry-After': '7' }
+        ))
+        let time = 0
+        const limiter = new RateLimiter({ cooldownMs: 500, maxRequests: 10, windowMs: 60_000, now: () => time })
+
+        try {
+            // What the input does with a 429 Response from send
+            limiter.recordRequest()
+            const response = await fetch(`${server.baseUrl}/chat`)
+            const error = new RateLimitError(undefined, readRateLimitHeaders(response) || {})
+            limiter.applyServerLimit(getErrorRateLimit(error)!)
+        } finally {
+            await server.close()
+        }
+
+        expect(limiter.getWaitTime()).toBe(7000)
+        time += 6999
+        expect(limiter.canRequest()).toBe(false)
+        time += 1
+        expect(limiter.canRequest()).toBe(true)
+    })
+})
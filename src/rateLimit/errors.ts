@@ -0,0 +1,27 @@
+import type { ServerRateLimit } from '../types'
+
+/**
+ * Error for `send` to throw when the server rejected a request for rate limiting.
+ * The input waits for `retryAfterMs` before allowing requests again.
+ *
+ * @example
+ * if (response.status === 429) {
+ *     throw new RateLimitError('Too many requests', { retryAfterMs: 30000 })
+ * }
+ */
+export class RateLimitError extends Error {
+    /** Time until the server accepts requests again in milliseconds */
+    readonly retryAfterMs?: number
+    /** Requests left in the server's window */
+    readonly remaining?: number
+    /** Time until the server's window resets in milliseconds */
+    readonly resetMs?: number
+
+    constructor(message: string = 'Rate limit exceeded', limit: ServerRateLimit = {}) {
+        super(message)
+        this.name = 'RateLimitError'
+        this.retryAfterMs = limit.retryAfterMs
+        this.remaining = limit.remaining
+        this.resetMs = limit.resetMs
+    }
+}
@@ -0,0 +1,314 @@
+import { createMemoryRateLimitStorage, createLocalRateLimitStorage } from './storage'
+import type { RateLimitBudget, RateLimitRecord, RateLimitStorage, RateLimiterOptions, ServerRateLimit } from '../types'
+
+const CHANNEL_NAME = 'ai-input-rate-limit'
+
+// Budget name for limiters without a key (their storage is private)
+const PRIVATE_KEY = 'default'
+
+// Storages behind the 'memory' and 'local' options, shared by all limiters in the page
+let sharedMemoryStorage: RateLimitStorage | null = null
+let sharedLocalStorage: RateLimitStorage | null = null
+
+// Subscribed limiters in this page by key, notified directly when a budget changes
+const pageLimiters = new Map<string, Set<RateLimiter>>()
+
+/**
+ * Resolve the storage option to an adapter
+ */
+function resolveStorage(storage: RateLimiterOptions['storage']): RateLimitStorage {
+    if (storage === 'local') {
+        return sharedLocalStorage || (sharedLocalStorage = createLocalRateLimitStorage())
+    }
+    if (!storage || storage === 'memory') {
+        return sharedMemoryStorage || (sharedMemoryStorage = createMemoryRateLimitStorage())
+    }
+    return storage
+}
+
+/**
+ * Rate limiter with a cooldown between requests, tightened by limits the
+ * server reports (applyServerLimit). The budget is a sliding window of
+ * `maxRequests` per `windowMs`, or a token bucket of `maxRequests` tokens
+ * that refills over `windowMs`; requests can weigh more than one.
+ * Framework-free; the clock is injectable for deterministic tests.
+ *
+ * Limiters with the same `key` share one budget through their storage.
+ * Subscribed limiters are notified when the budget changes, including
+ * changes from other tabs (BroadcastChannel and storage events).
+ *
+ * @example
+ * const limiter = new RateLimiter({ cooldownMs: 1000, maxRequests: 10, windowMs: 60000 })
+ * if (limiter.canRequest()) {
+ *     limiter.recordRequest()
+ * }
+ */
+export class RateLimiter {
+    private config: Omit<RateLimiterOptions, 'now'>
+    private readonly now: () => number
+    private readonly key: string
+    private readonly storage: RateLimitStorage
+    // Whether other tabs may see the budget
+    private readonly crossTab: boolean
+
+    private readonly listeners = new Set<() => void>()
+    private unsubscribeStorage: (() => void) | null = null
+    private channel: BroadcastChannel | null = null
+
+    constructor(options: RateLimiterOptions) {
+        const { now, ...config } = options
+        this.config = config
+        this.now = now || Date.now
+
+        if (options.key) {
+            this.key = options.key
+            this.storage = resolveStorage(options.storage)
+            this.crossTab = options.crossTab ?? (Boolean(options.storage) && options.storage !== 'memory')
+        } else {
+            this.key = PRIVATE_KEY
+            this.storage = createMemoryRateLimitStorage()
+            this.crossTab = false
+        }
+    }
+
+    /**
+     * Change the limits. The key and storage are fixed at construction.
+     */
+    update(config: Partial<RateLimitBudget>): void {
+        this.config = { ...this.config, ...config }
+    }
+
+    /** Whether a request is allowed now */
+    canRequest(): boolean {
+        return this.getWaitTime() === 0
+    }
+
+    /**
+     * Budget left: request weight left in the window, or whole tokens in the bucket.
+     * The server's count applies when lower.
+     */
+    getRequestsRemaining(): number {
+        const record = this.read()
+        const remaining = Math.max(0, Math.floor(this.getAvailable(record)))
+        return record.serverRemaining !== undefined
+            ? Math.min(remaining, Math.max(0, record.serverRemaining))
+            : remaining
+    }
+
+    /** Time left in the current cooldown or server-imposed wait in milliseconds */
+    getCooldownRemaining(): number {
+        const record = this.read()
+        return Math.max(0, Math.max(record.cooldownEnd, record.blockedUntil || 0) - this.now())
+    }
+
+    /**
+     * Time until a request is allowed in milliseconds: the cooldown or server wait,
+     * or until the budget has room again (Infinity if maxRequests is 0)
+     */
+    getWaitTime(): number {
+        const record = this.read()
+        const now = this.now()
+        const cooldown = this.getCooldownRemaining()
+
+        // The server has no requests left until its window resets
+        if (record.serverRemaining !== undefined && record.serverRemaining <= 0 && record.serverResetAt) {
+            return Math.max(cooldown, record.serverResetAt - now)
+        }
+        return Math.max(cooldown, this.getBudgetWait(record, now))
+    }
+
+    /**
+     * Record a request and start the cooldown.
+     * A request is allowed while any budget is left, so a heavy request
+     * can overdraw it; later requests wait until it has room again.
+     *
+     * @param cost - Weight of the request (default: 1)
+     */
+    recordRequest(cost: number = 1): void {
+        const now = this.now()
+        const record = this.read()
+        const next: RateLimitRecord = {
+            ...record,
+            cooldownEnd: now + this.config.cooldownMs,
+            // Assume the request counts on the server until it reports otherwise
+            serverRemaining: record.serverRemaining !== undefined
+                ? Math.max(0, record.serverRemaining - 1)
+                : undefined,
+        }
+
+        if (this.config.strategy === 'token-bucket') {
+            next.tokens = (record.tokens ?? this.config.maxRequests) - cost
+            next.refilledAt = now
+        } else {
+            next.timestamps = [...record.timestamps, now]
+            next.costs = [...(record.costs || []), cost]
+        }
+        this.write(next)
+    }
+
+    /**
+     * Apply a rate limit reported by the server: block requests for exactly
+     * `retryAfterMs`, and cap the remaining requests at the server's count
+     * until its window resets (or for one local window without `resetMs`).
+     */
+    applyServerLimit(limit: ServerRateLimit): void {
+        const now = this.now()
+        const record = this.read()
+        const next: RateLimitRecord = { ...record }
+
+        if (limit.retryAfterMs !== undefined) {
+            next.blockedUntil = now + Math.max(0, limit.retryAfterMs)
+        }
+        if (limit.remaining !== undefined) {
+            next.serverRemaining = limit.remaining
+            next.serverResetAt = now + (limit.resetMs ?? this.config.windowMs)
+        }
+        this.write(next)
+    }
+
+    /** Clear the budget */
+    reset(): void {
+        this.storage.remove(this.key)
+        this.announce()
+    }
+
+    /**
+     * Listen for budget changes from this and other limiters sharing the key.
+     * Returns an unsubscribe function.
+     */
+    subscribe(listener: () => void): () => void {
+        if (this.listeners.size === 0) {
+            this.connect()
+        }
+        this.listeners.add(listener)
+
+        return () => {
+            if (this.listeners.delete(listener) && this.listeners.size === 0) {
+                this.disconnect()
+            }
+        }
+    }
+
+    // Current budget: requests that left the window are dropped, the bucket is
+    // refilled up to now, and expired server limits are cleared
+    private read(): RateLimitRecord {
+        const now = this.now()
+        const record = this.storage.get(this.key) || { timestamps: [], cooldownEnd: 0 }
+        const hasServerCount = record.serverResetAt !== undefined && record.serverResetAt > now
+        const current: RateLimitRecord = {
+            timestamps: [],
+            cooldownEnd: record.cooldownEnd,
+            blockedUntil: record.blockedUntil && record.blockedUntil > now ? record.blockedUntil : undefined,
+            serverRemaining: hasServerCount ? record.serverRemaining : undefined,
+            serverResetAt: hasServerCount ? record.serverResetAt : undefined,
+        }
+
+        if (this.config.strategy === 'token-bucket') {
+            const { maxRequests, windowMs } = this.config
+            const tokens = record.tokens ?? maxRequests
+            const elapsed = Math.max(0, now - (record.refilledAt ?? now))
+            // The whole bucket refills over one window
+            const refill = windowMs > 0 ? (elapsed * maxRequests) / windowMs : maxRequests
+            current.tokens = Math.min(maxRequests, tokens + refill)
+            current.refilledAt = now
+            return current
+        }
+
+        // Records without costs count every request once
+        const windowStart = now - this.config.windowMs
+        const costs: number[] = []
+        record.timestamps.forEach((ts, i) => {
+            if (ts > windowStart) {
+                current.timestamps.push(ts)
+                costs.push(record.costs?.[i] ?? 1)
+            }
+        })
+        current.costs = costs
+        return current
+    }
+
+    // Budget left in a current record
+    private getAvailable(record: RateLimitRecord): number {
+        if (this.config.strategy === 'token-bucket') {
+            return record.tokens ?? this.config.maxRequests
+        }
+        const used = (record.costs || []).reduce((sum, cost) => sum + cost, 0)
+        return this.config.maxRequests - used
+    }
+
+    // Time until at least one unit of budget is free
+    private getBudgetWait(record: RateLimitRecord, now: number): number {
+        const available = this.getAvailable(record)
+        if (available >= 1) return 0
+
+        if (this.config.strategy === 'token-bucket') {
+            const { maxRequests, windowMs } = this.config
+            if (maxRequests < 1) return Infinity
+            return Math.ceil(((1 - available) * windowMs) / maxRequests)
+        }
+
+        // Wait for the oldest requests to leave the window until one more fits
+        let used = this.config.maxRequests - available
+        const costs = record.costs || []
+        for (let i = 0; i < record.timestamps.length; i++) {
+            used -= costs[i] ?? 1
+            if (this.config.maxRequests - used >= 1) {
+                return Math.max(0, record.timestamps[i] + this.config.windowMs - now)
+            }
+        }
+        return Infinity
+    }
+
+    private write(record: RateLimitRecord): void {
+        this.storage.set(this.key, record)
+        this.announce()
+    }
+
+    // Tell limiters in this page and other tabs that the budget changed
+    private announce(): void {
+        this.notify()
+        pageLimiters.get(this.key)?.forEach((limiter) => {
+            if (limiter !== this && limiter.storage === this.storage) {
+                limiter.notify()
+            }
+        })
+        this.channel?.postMessage({ key: this.key })
+    }
+
+    private notify(): void {
+        this.listeners.forEach((listener) => listener())
+    }
+
+    // Start following changes made elsewhere
+    private connect(): void {
+        const limiters = pageLimiters.get(this.key) || new Set<RateLimiter>()
+        limiters.add(this)
+        pageLimiters.set(this.key, limiters)
+
+        if (!this.crossTab) return
+
+        this.unsubscribeStorage = this.storage.subscribe?.(this.key, () => this.notify()) || null
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL_NAME)
+            this.channel.onmessage = (event: MessageEvent) => {
+                if ((event.data as { key?: unknown } | null)?.key === this.key) {
+                    this.notify()
+                }
+            }
+        }
+    }
+
+    private disconnect(): void {
+        const limiters = pageLimiters.get(this.key)
+        limiters?.delete(this)
+        if (limiters?.size === 0) {
+            pageLimiters.delete(this.key)
+        }
+
+        this.unsubscribeStorage?.()
+        this.unsubscribeStorage = null
+        this.channel?.close()
+        this.channel = null
+    }
+}
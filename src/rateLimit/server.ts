@@ -0,0 +1,113 @@
+import { RateLimitError } from './errors'
+import { TransportError } from '../transports/errors'
+import type { ServerRateLimit } from '../types'
+
+// Checked in order; request limits rather than token limits
+const REMAINING_HEADERS = [
+    'x-ratelimit-remaining-requests',
+    'x-ratelimit-remaining',
+    'ratelimit-remaining',
+    'anthropic-ratelimit-requests-remaining',
+]
+const RESET_HEADERS = [
+    'x-ratelimit-reset-requests',
+    'x-ratelimit-reset',
+    'ratelimit-reset',
+    'anthropic-ratelimit-requests-reset',
+]
+
+// Larger numbers are Unix timestamps rather than delays in seconds
+const EPOCH_SECONDS_THRESHOLD = 1e9
+
+/**
+ * Parse a delay header into milliseconds from now. Accepts seconds ("30"),
+ * Unix timestamps, durations ("1m30s", "250ms") and dates (HTTP or ISO).
+ *
+ * @param value - Header value
+ * @param now - Current time, injectable for deterministic results
+ */
+export function parseDelayHeader(value: string | null, now: number = Date.now()): number | undefined {
+    if (!value) return undefined
+    const trimmed = value.trim()
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const seconds = Number(trimmed)
+        return seconds > EPOCH_SECONDS_THRESHOLD
+            ? Math.max(0, seconds * 1000 - now)
+            : Math.round(seconds * 1000)
+    }
+
+    const duration = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/)
+    if (duration && duration.slice(1).some(Boolean)) {
+        const [, h = '0', m = '0', s = '0', ms = '0'] = duration
+        return Math.round(Number(h) * 3600000 + Number(m) * 60000 + Number(s) * 1000 + Number(ms))
+    }
+
+    const date = Date.parse(trimmed)
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Read the server's rate limit from response headers: `Retry-After` (or
+ * `retry-after-ms`) and the remaining requests and reset time from
+ * `x-ratelimit-*`, `ratelimit-*` or `anthropic-ratelimit-*` headers.
+ * Works with fetch Responses and any object with `headers.get()`.
+ *
+ * @param response - Value returned by `send`
+ * @returns The rate limit, or null when the response carries none
+ */
+export function readRateLimitHeaders(response: unknown): ServerRateLimit | null {
+    const headers = (response as { headers?: unknown } | null)?.headers as Headers | undefined
+    if (!headers || typeof headers.get !== 'function') return null
+
+    const first = (names: string[]) => {
+        for (const name of names) {
+            const value = headers.get(name)
+            if (value !== null) return value
+        }
+        return null
+    }
+
+    const limit: ServerRateLimit = {}
+
+    const retryAfterMs = Number(headers.get('retry-after-ms'))
+    limit.retryAfterMs = headers.get('retry-after-ms') !== null && Number.isFinite(retryAfterMs)
+        ? retryAfterMs
+        : parseDelayHeader(headers.get('retry-after'))
+
+    const remaining = first(REMAINING_HEADERS)
+    if (remaining !== null && Number.isFinite(Number(remaining))) {
+        limit.remaining = Number(remaining)
+    }
+    limit.resetMs = parseDelayHeader(first(RESET_HEADERS))
+
+    // A rejected request without Retry-After can come back when the window resets
+    if ((response as { status?: unknown }).status === 429 && limit.retryAfterMs === undefined) {
+        limit.retryAfterMs = limit.resetMs
+    }
+
+    const hasLimit = limit.retryAfterMs !== undefined
+        || limit.remaining !== undefined
+        || limit.resetMs !== undefined
+    return hasLimit ? limit : null
+}
+
+/**
+ * Get the server's rate limit from an error: a RateLimitError, or a
+ * 'rate-limit' TransportError that carries a retry time.
+ *
+ * @returns The rate limit, or null when the error is not a server rate limit
+ */
+export function getErrorRateLimit(error: Error): ServerRateLimit | null {
+    if (error instanceof RateLimitError) {
+        return {
+            retryAfterMs: error.retryAfterMs,
+            remaining: error.remaining,
+            resetMs: error.resetMs,
+        }
+    }
+    if (error instanceof TransportError && error.code === 'rate-limit' && error.retryAfterMs !== undefined) {
+        return { retryAfterMs: error.retryAfterMs }
+    }
+    return null
+}
@@ -0,0 +1,95 @@
+import type { RateLimitRecord, RateLimitStorage } from '../types'
+
+const DEFAULT_PREFIX = 'ai-input-rate-limit:'
+
+/**
+ * Parse a stored budget, ignoring anything malformed
+ */
+function parseRecord(value: string | null): RateLimitRecord | null {
+    if (!value) return null
+    try {
+        const record = JSON.parse(value) as Partial<RateLimitRecord> | null
+        if (!record || !Array.isArray(record.timestamps)) return null
+        const optional = (value: unknown) => (typeof value === 'number' ? value : undefined)
+        return {
+            timestamps: record.timestamps.filter((ts): ts is number => typeof ts === 'number'),
+            cooldownEnd: typeof record.cooldownEnd === 'number' ? record.cooldownEnd : 0,
+            blockedUntil: optional(record.blockedUntil),
+            serverRemaining: optional(record.serverRemaining),
+            serverResetAt: optional(record.serverResetAt),
+            costs: Array.isArray(record.costs)
+                ? record.costs.map((cost) => (typeof cost === 'number' ? cost : 1))
+                : undefined,
+            tokens: optional(record.tokens),
+            refilledAt: optional(record.refilledAt),
+        }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Create an in-memory budget storage. Budgets are lost on reload.
+ */
+export function createMemoryRateLimitStorage(): RateLimitStorage {
+    const records = new Map<string, RateLimitRecord>()
+
+    return {
+        get: (key) => records.get(key) || null,
+        set: (key, record) => {
+            records.set(key, record)
+        },
+        remove: (key) => {
+            records.delete(key)
+        },
+    }
+}
+
+/**
+ * Create a localStorage budget storage. Budgets survive reloads, and
+ * changes from other tabs are picked up through `storage` events.
+ * Unavailable storage (SSR, privacy mode) behaves as empty.
+ *
+ * @param prefix - Prefix for the localStorage keys
+ */
+export function createLocalRateLimitStorage(prefix: string = DEFAULT_PREFIX): RateLimitStorage {
+    const hasStorage = () => typeof localStorage !== 'undefined'
+
+    return {
+        get: (key) => {
+            if (!hasStorage()) return null
+            try {
+                return parseRecord(localStorage.getItem(prefix + key))
+            } catch {
+                return null
+            }
+        },
+        set: (key, record) => {
+            if (!hasStorage()) return
+            try {
+                localStorage.setItem(prefix + key, JSON.stringify(record))
+            } catch {
+                // Storage full or blocked - the request goes unrecorded
+            }
+        },
+        remove: (key) => {
+            if (!hasStorage()) return
+            try {
+                localStorage.removeItem(prefix + key)
+            } catch {
+                // Storage blocked
+            }
+        },
+        subscribe: (key, listener) => {
+            if (typeof window === 'undefined') return () => {}
+            const handleStorage = (event: StorageEvent) => {
+                // A null key means the whole storage was cleared
+                if (event.key === null || event.key === prefix + key) {
+                    listener()
+                }
+            }
+            window.addEventListener('storage', handleStorage)
+            return () => window.removeEventListener('storage', handleStorage)
+        },
+    }
+}
@@ -0,0 +1,32 @@
+import type { AiInputPayload, RateLimitRequestType, RateLimitWeights } from '../types'
+
+const DEFAULT_WEIGHTS: RateLimitWeights = {
+    text: 1,
+    audio: 1,
+    audioPerSecond: 0,
+}
+
+/**
+ * Budget a payload counts against - audio when it carries a recording
+ */
+export function getRequestType(payload: AiInputPayload): RateLimitRequestType {
+    return payload.kind === 'audio' || (payload.kind === 'mixed' && payload.audio) ? 'audio' : 'text'
+}
+
+/**
+ * Cost of a payload: the text weight for text, and the audio weight plus
+ * the per-second weight for the recording's length
+ *
+ * @param payload - Payload being sent
+ * @param weights - Configured weights
+ */
+export function getRequestCost(payload: AiInputPayload, weights: Partial<RateLimitWeights> = {}): number {
+    const { text, audio, audioPerSecond } = { ...DEFAULT_WEIGHTS, ...weights }
+    const recording = payload.kind === 'text' ? undefined : payload.audio
+
+    let cost = payload.kind === 'audio' ? 0 : text
+    if (recording) {
+        cost += audio + audioPerSecond * (recording.durationMs / 1000)
+    }
+    return cost
+}
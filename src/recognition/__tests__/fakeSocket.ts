@@ -0,0 +1,115 @@
+import type { WebSocketConstructor } from '../../types'
+
+// WebSocket.readyState values
+const CONNECTING = 0
+const OPEN = 1
+const CLOSING = 2
+const CLOSED = 3
+
+/**
+ * Data a client sent over a fake socket
+ */
+export type SocketData = string | Blob | ArrayBuffer
+
+/**
+ * Server side of a fake socket: records what the client sent and
+ * lets a test answer or hang up like a realtime STT service would
+ */
+export class FakeSocket {
+    readyState = CONNECTING
+    binaryType = 'blob'
+    onopen: ((event: Event) => void) | null = null
+    onmessage: ((event: MessageEvent) => void) | null = null
+    onclose: ((event: CloseEvent) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    /** Messages received from the client, in order */
+    received: SocketData[] = []
+    /** Code the client closed the socket with, if it did */
+    closeCode: number | null = null
+
+    constructor(
+        readonly url: string,
+        readonly protocols: string | string[] | undefined,
+        private readonly handler: (socket: FakeSocket, data: SocketData) => void
+    ) {}
+
+    send(data: SocketData): void {
+        if (this.readyState !== OPEN) {
+            throw new Error('Socket is not open')
+        }
+        this.received.push(data)
+        setTimeout(() => this.handler(this, data), 0)
+    }
+
+    close(code = 1005, reason = ''): void {
+        if (this.readyState >= CLOSING) return
+        this.readyState = CLOSING
+        this.closeCode = code
+        setTimeout(() => this.hangUp(code, reason), 0)
+    }
+
+    /** Complete the opening handshake */
+    accept(): void {
+        this.readyState = OPEN
+        this.onopen?.(new Event('open'))
+    }
+
+    /** Send a message to the client; objects are sent as JSON */
+    reply(message: unknown): void {
+        if (this.readyState !== OPEN) return
+        const data = typeof message === 'string' ? message : JSON.stringify(message)
+        this.onmessage?.({ data } as MessageEvent)
+    }
+
+    /** Close the connection from the server side */
+    hangUp(code: number, reason = ''): void {
+        if (this.readyState === CLOSED) return
+        this.readyState = CLOSED
+        this.onclose?.({ code, reason, wasClean: code !== 1006 } as CloseEvent)
+    }
+}
+
+/**
+ * Local stand-in for a realtime transcription service
+ */
+export interface FakeSocketServer {
+    /** Constructor to pass as the transcriber's WebSocket option */
+    WebSocket: WebSocketConstructor
+    /** Sockets opened so far */
+    sockets: FakeSocket[]
+}
+
+/**
+ * Create a server whose sockets connect on the next tick, or fail with 1006
+ * when refused. The handler sees each client message after it is sent.
+ */
+export function createFakeSocketServer(
+    handler: (socket: FakeSocket, data: SocketData) => void = () => {},
+    options: { refuse?: boolean } = {}
+): FakeSocketServer {
+    const sockets: FakeSocket[] = []
+
+    class ServerSocket extends FakeSocket {
+        constructor(url: string, protocols?: string | string[]) {
+            super(url, protocols, handler)
+            sockets.push(this)
+            setTimeout(() => {
+                if (this.readyState !== CONNECTING) return
+                if (options.refuse) this.hangUp(1006)
+                else this.accept()
+            }, 0)
+        }
+    }
+
+    return {
+        WebSocket: ServerSocket as unknown as WebSocketConstructor,
+        sockets,
+    }
+}
+
+/**
+ * Let pending socket events run
+ */
+export function flush(ms = 10): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createWebSocketTranscriber } from '../websocket'
+import { createFakeSocketServer, flush } from './fakeSocket'
+import type { RecognitionResult } from '../../types'
+
+/**
+ * Start options that record transcripts and errors
+ */
+function createListener() {
+    const transcripts: RecognitionResult[] = []
+    const errors: Error[] = []
+    return {
+        transcripts,
+        errors,
+        onTranscript: (result: RecognitionResult) => transcripts.push(result),
+        onError: (error: Error) => errors.push(error),
+    }
+}
+
+describe('createWebSocketTranscriber', () => {
+    it('sends the start message and audio queued while connecting, in order', async () => {
+        const server = createFakeSocketServer()
+        const transcriber = createWebSocketTranscriber({
+            url: async () => 'wss://stt.test/listen?token=abc',
+            protocols: ['token'],
+            startMessage: '{"type":"Configure"}',
+            WebSocket: server.WebSocket,
+        })
+        const first = new Blob(['a'])
+        const second = new Blob(['b'])
+
+        const session = await transcriber.start(createListener())
+        session.send({ kind: 'encoded', data: first })
+        await flush()
+        session.send({ kind: 'encoded', data: second })
+        // PCM frames are ignored by an encoded transcriber
+        session.send({ kind: 'pcm', samples: new Float32Array(4), sampleRate: 16000 })
+
+        const [socket] = server.sockets
+        expect(transcriber.input).toBe('encoded')
+        expect(socket.url).toBe('wss://stt.test/listen?token=abc')
+        expect(socket.protocols).toEqual(['token'])
+        expect(socket.binaryType).toBe('arraybuffer')
+        expect(socket.received).toEqual(['{"type":"Configure"}', first, second])
+    })
+
+    it('resamples PCM frames to 16-bit little-endian audio at the target rate', async () => {
+        const server = createFakeSocketServer()
+        const transcriber = createWebSocketTranscriber({
+            url: 'wss://stt.test/listen',
+            input: 'pcm',
+            WebSocket: server.WebSocket,
+        })
+
+        const session = await transcriber.start(createListener())
+        await flush()
+        session.send({ kind: 'pcm', samples: new Float32Array(480).fill(0.5), sampleRate: 48000 })
+
+        const [frame] = server.sockets[0].received as ArrayBuffer[]
+        const pcm = new Int16Array(frame)
+        expect(pcm).toHaveLength(160)
+        expect(pcm[0]).toBe(16383)
+    })
+
+    it('reports partial and final transcripts from common message shapes', async () => {
+        const server = createFakeSocketServer((socket) => {
+            socket.reply({ type: 'partial', text: 'hel' })
+            socket.reply({ channel: { alternatives: [{ transcript: 'hello' }] }, is_final: false })
+            socket.reply({ transcript: 'hello world', isFinal: true })
+            socket.reply({ type: 'transcript', text: 'again' })
+            socket.reply({ type: 'interim', text: '' })
+            socket.reply('not json')
+            socket.reply({ type: 'metadata', duration: 1 })
+        })
+        const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen', WebSocket: server.WebSocket })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        await flush()
+
+        expect(listener.transcripts).toEqual([
+            { transcript: 'hel', isFinal: false },
+            { transcript: 'hello', isFinal: false },
+            { transcript: 'hello world', isFinal: true },
+            { transcript: 'again', isFinal: true },
+        ])
+        expect(listener.errors).toEqual([])
+    })
+
+    it('uses a custom message parser', async () => {
+        const server = createFakeSocketServer((socket) => socket.reply('final:done'))
+        const transcriber = createWebSocketTranscriber({
+            url: 'wss://stt.test/listen',
+            parseMessage: (data) => ({ transcript: String(data).split(':')[1], isFinal: true }),
+            WebSocket: server.WebSocket,
+        })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        await flush()
+
+        expect(listener.transcripts).toEqual([{ transcript: 'done', isFinal: true }])
+    })
+
+    it('finishes once the server delivers the final transcript and closes', async () => {
+        const server = createFakeSocketServer((socket, data) => {
+            if (data === '{"type":"CloseStream"}') {
+                socket.reply({ text: 'last words', is_final: true })
+                socket.hangUp(1000)
+            }
+        })
+        const transcriber = createWebSocketTranscriber({
+            url: 'wss://stt.test/listen',
+            endMessage: '{"type":"CloseStream"}',
+            WebSocket: server.WebSocket,
+        })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        // Finishing before the socket opens sends the end message once it does
+        await session.finish()
+
+        expect(server.sockets[0].received.at(-1)).toBe('{"type":"CloseStream"}')
+        expect(listener.transcripts).toEqual([{ transcript: 'last words', isFinal: true }])
+        expect(listener.errors).toEqual([])
+        // Audio after finishing is dropped
+        session.send({ kind: 'encoded', data: new Blob(['late']) })
+        expect(server.sockets[0].received).toHaveLength(2)
+    })
+
+    it('closes the socket to end the stream without an end message', async () => {
+        const server = createFakeSocketServer()
+        const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen', WebSocket: server.WebSocket })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        await flush()
+        await session.finish()
+
+        expect(server.sockets[0].closeCode).toBe(1000)
+        expect(listener.errors).toEqual([])
+    })
+
+    it('closes the socket when the server does not close within the finish timeout', async () => {
+        const server = createFakeSocketServer()
+        const transcriber = createWebSocketTranscriber({
+            url: 'wss://stt.test/listen',
+            endMessage: 'EOS',
+            finishTimeoutMs: 20,
+            WebSocket: server.WebSocket,
+        })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        await flush()
+        await session.finish()
+
+        expect(server.sockets[0].received).toEqual(['EOS'])
+        expect(server.sockets[0].closeCode).toBe(1000)
+        expect(listener.errors).toEqual([])
+    })
+
+    it('reports an unexpected close with the server reason', async () => {
+        const server = createFakeSocketServer((socket) => socket.hangUp(1011, 'Upstream overloaded'))
+        const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen', WebSocket: server.WebSocket })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        await flush()
+
+        expect(listener.errors.map((error) => error.message)).toEqual(['Upstream overloaded'])
+    })
+
+    it('reports a refused connection', async () => {
+        const server = createFakeSocketServer(undefined, { refuse: true })
+        const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen', WebSocket: server.WebSocket })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        await flush()
+
+        expect(server.sockets[0].received).toEqual([])
+        expect(listener.errors.map((error) => error.message)).toEqual(['Transcription connection closed unexpectedly'])
+    })
+
+    it('drops transcripts and close errors after an abort', async () => {
+        const server = createFakeSocketServer((socket) => socket.reply({ text: 'too late', is_final: true }))
+        const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen', WebSocket: server.WebSocket })
+        const listener = createListener()
+
+        const session = await transcriber.start(listener)
+        await flush()
+        session.send({ kind: 'encoded', data: new Blob(['audio']) })
+        session.abort()
+        await flush()
+        server.sockets[0].hangUp(1011)
+
+        expect(server.sockets[0].closeCode).toBe(1000)
+        expect(listener.transcripts).toEqual([])
+        expect(listener.errors).toEqual([])
+    })
+
+    it('fails to start without a WebSocket implementation', async () => {
+        vi.stubGlobal('WebSocket', undefined)
+        try {
+            const transcriber = createWebSocketTranscriber({ url: 'wss://stt.test/listen' })
+
+            await expect(transcriber.start(createListener())).rejects.toThrow('WebSocket is not supported in this environment')
+        } finally {
+            vi.unstubAllGlobals()
+        }
+    })
+})
@@ -0,0 +1,116 @@
+import type { RecognitionEngine, RecognitionStartOptions, RecognitionSession } from '../types'
+
+/**
+ * Minimal typings for the Web Speech API, which is not part of the TypeScript DOM lib
+ */
+interface SpeechRecognitionAlternativeLike {
+    transcript: string
+}
+
+interface SpeechRecognitionResultLike {
+    readonly isFinal: boolean
+    readonly length: number
+    [index: number]: SpeechRecognitionAlternativeLike
+}
+
+interface SpeechRecognitionEventLike {
+    readonly resultIndex: number
+    readonly results: {
+        readonly length: number
+        [index: number]: SpeechRecognitionResultLike
+    }
+}
+
+interface SpeechRecognitionErrorEventLike {
+    readonly error: string
+}
+
+interface SpeechRecognitionLike {
+    lang: string
+    continuous: boolean
+    interimResults: boolean
+    onresult: ((event: SpeechRecognitionEventLike) => void) | null
+    onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null
+    onend: (() => void) | null
+    start: () => void
+    stop: () => void
+    abort: () => void
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+/**
+ * Messages for Web Speech API error codes
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+    'not-allowed': 'Microphone access denied',
+    'service-not-allowed': 'Speech recognition is not allowed',
+    'audio-capture': 'No microphone found',
+    'no-speech': 'No speech detected',
+    'network': 'Speech recognition network error',
+    'language-not-supported': 'Language not supported for speech recognition',
+}
+
+/**
+ * Get the SpeechRecognition constructor, including the webkit-prefixed one
+ */
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+    if (typeof window === 'undefined') {
+        return null
+    }
+    const globals = window as unknown as {
+        SpeechRecognition?: SpeechRecognitionConstructor
+        webkitSpeechRecognition?: SpeechRecognitionConstructor
+    }
+    return globals.SpeechRecognition || globals.webkitSpeechRecognition || null
+}
+
+/**
+ * Create a recognition engine backed by the browser's Web Speech API.
+ * Streams interim and final results while the user speaks.
+ */
+export function createWebSpeechEngine(): RecognitionEngine {
+    return {
+        isSupported: () => getSpeechRecognition() !== null,
+
+        start(options: RecognitionStartOptions): RecognitionSession {
+            const SpeechRecognition = getSpeechRecognition()
+            if (!SpeechRecognition) {
+                throw new Error('Speech recognition is not supported in this browser')
+            }
+
+            const recognition = new SpeechRecognition()
+            recognition.lang = options.language
+            recognition.continuous = options.continuous
+            recognition.interimResults = true
+
+            recognition.onresult = (event) => {
+                let interim = ''
+                for (let i = event.resultIndex; i < event.results.length; i++) {
+                    const result = event.results[i]
+                    if (result.isFinal) {
+                        options.onResult({ transcript: result[0].transcript, isFinal: true })
+                    } else {
+                        interim += result[0].transcript
+                    }
+                }
+                options.onResult({ transcript: interim, isFinal: false })
+            }
+
+            recognition.onerror = (event) => {
+                // Aborts are requested by us and not an error
+                if (event.error === 'aborted') return
+                options.onError(new Error(ERROR_MESSAGES[event.error] || `Speech recognition error: ${event.error}`))
+            }
+
+            recognition.onend = () => options.onEnd()
+
+            recognition.start()
+
+            return {
+                stop: () => recognition.stop(),
+                abort: () => recognition.abort(),
+            }
+        },
+    }
+}
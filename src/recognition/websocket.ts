@@ -0,0 +1,171 @@
+import { extractTranscriptionText } from '../utils/transcription'
+import { resampleLinear, floatToPcm16 } from '../utils/pcm'
+import { wait } from '../utils/retry'
+import type {
+    AudioChunk,
+    RecognitionResult,
+    StreamingTranscriber,
+    StreamingTranscriberSession,
+    StreamingTranscriberStartOptions,
+    WebSocketTranscriberOptions,
+} from '../types'
+
+const DEFAULT_SAMPLE_RATE = 16000
+const DEFAULT_FINISH_TIMEOUT_MS = 5000
+
+// WebSocket.readyState values - custom implementations may not define the constants
+const CONNECTING = 0
+const OPEN = 1
+
+/**
+ * Parse a transcript from common realtime STT message shapes.
+ * Finality comes from is_final / isFinal / final / end_of_turn, or from a
+ * 'partial' / 'interim' / 'delta' message type; other messages count as final.
+ */
+function parseTranscriptMessage(data: unknown): RecognitionResult | null {
+    if (typeof data !== 'string') return null
+
+    let message: unknown
+    try {
+        message = JSON.parse(data)
+    } catch {
+        return null
+    }
+    if (!message || typeof message !== 'object') return null
+
+    const transcript = extractTranscriptionText(message)
+    if (transcript === null) return null
+
+    const record = message as Record<string, unknown>
+    const flag = record.is_final ?? record.isFinal ?? record.final ?? record.end_of_turn
+    const isFinal = typeof flag === 'boolean'
+        ? flag
+        : !(typeof record.type === 'string' && /partial|interim|delta/i.test(record.type))
+
+    return { transcript, isFinal }
+}
+
+/**
+ * Create a streaming transcriber that sends audio over a WebSocket
+ * and reads transcripts from its JSON messages.
+ *
+ * @example
+ * streamingTranscriber={createWebSocketTranscriber({
+ *     url: 'wss://example.com/listen',
+ *     input: 'pcm',
+ *     endMessage: JSON.stringify({ type: 'CloseStream' }),
+ * })}
+ *
+ * @param options - Connection and message options
+ */
+export function createWebSocketTranscriber(options: WebSocketTranscriberOptions): StreamingTranscriber {
+    const input = options.input || 'encoded'
+    const sampleRate = options.sampleRate || DEFAULT_SAMPLE_RATE
+    const finishTimeoutMs = options.finishTimeoutMs ?? DEFAULT_FINISH_TIMEOUT_MS
+    const parseMessage = options.parseMessage || parseTranscriptMessage
+
+    return {
+        input,
+
+        async start({ onTranscript, onError }: StreamingTranscriberStartOptions): Promise<StreamingTranscriberSession> {
+            const Socket = options.WebSocket || (typeof WebSocket !== 'undefined' ? WebSocket : null)
+            if (!Socket) {
+                throw new Error('WebSocket is not supported in this environment')
+            }
+
+            const url = typeof options.url === 'function' ? await options.url() : options.url
+            const socket = new Socket(url, options.protocols)
+            socket.binaryType = 'arraybuffer'
+
+            // Audio captured before the socket opened
+            const queue: (Blob | ArrayBuffer)[] = []
+            let ending = false
+            let aborted = false
+            let finishing: Promise<void> | null = null
+
+            let resolveClosed: () => void = () => {}
+            const closed = new Promise<void>((resolve) => {
+                resolveClosed = resolve
+            })
+
+            // Tell the server no more audio is coming
+            const endStream = () => {
+                if (options.endMessage) {
+                    socket.send(options.endMessage)
+                } else {
+                    socket.close(1000)
+                }
+            }
+
+            socket.onopen = () => {
+                if (aborted) return
+                if (options.startMessage) {
+                    socket.send(options.startMessage)
+                }
+                queue.splice(0).forEach((data) => socket.send(data))
+                if (ending) {
+                    endStream()
+                }
+            }
+
+            socket.onmessage = (event: MessageEvent) => {
+                if (aborted) return
+                const result = parseMessage(event.data)
+                if (result && (result.transcript || result.isFinal)) {
+                    onTranscript(result)
+                }
+            }
+
+            socket.onclose = (event: CloseEvent) => {
+                resolveClosed()
+                if (!ending && !aborted && event.code !== 1000) {
+                    onError(new Error(event.reason || 'Transcription connection closed unexpectedly'))
+                }
+            }
+
+            const transmit = (data: Blob | ArrayBuffer) => {
+                if (socket.readyState === OPEN) {
+                    socket.send(data)
+                } else if (socket.readyState === CONNECTING) {
+                    queue.push(data)
+                }
+            }
+
+            return {
+                send(chunk: AudioChunk) {
+                    if (ending || aborted || chunk.kind !== input) return
+                    if (chunk.kind === 'encoded') {
+                        transmit(chunk.data)
+                    } else {
+                        const samples = resampleLinear(chunk.samples, chunk.sampleRate, sampleRate)
+                        transmit(floatToPcm16(samples).buffer as ArrayBuffer)
+                    }
+                },
+
+                finish() {
+                    if (!finishing) {
+                        ending = true
+                        // A connecting socket ends the stream once it opens
+                        if (socket.readyState === OPEN) {
+                            endStream()
+                        }
+                        finishing = Promise.race([closed, wait(finishTimeoutMs)]).then(() => {
+                            if (socket.readyState <= OPEN) {
+                                socket.close(1000)
+                            }
+                        })
+                    }
+                    return finishing
+                },
+
+                abort() {
+                    aborted = true
+                    queue.length = 0
+                    if (socket.readyState <= OPEN) {
+                        socket.close(1000)
+                    }
+                },
+            }
+        },
+    }
+}
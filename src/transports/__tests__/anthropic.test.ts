@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createAnthropicTransport } from '../anthropic'
+import { TransportError } from '../errors'
+import { collect, createContext, sendChunks, sendJson, startFakeServer } from './fakeServer'
+import type { FakeServer } from './fakeServer'
+import type { TransportResult } from '../../types'
+
+/**
+ * Messages API event, as the server writes it
+ */
+function event(type: string, data: Record<string, unknown>): string {
+    return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`
+}
+
+describe('createAnthropicTransport', () => {
+    let server: FakeServer | undefined
+
+    afterEach(async () => {
+        await server?.close()
+        server = undefined
+    })
+
+    it('sends a message and normalizes the response', async () => {
+        server = await startFakeServer((_request, response) => sendJson(response, {
+            content: [
+                { type: 'text', text: 'Hello ' },
+                { type: 'text', text: 'there' },
+            ],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 10, output_tokens: 4 },
+        }))
+        const transport = createAnthropicTransport({
+            baseUrl: server.baseUrl,
+            model: 'claude-sonnet',
+            systemPrompt: 'Be brief',
+            getToken: async () => 'secret',
+        })
+
+        const result = await transport.send('Hi', createContext()) as TransportResult
+
+        expect(result.text).toBe('Hello there')
+        expect(result.finishReason).toBe('end_turn')
+        expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 4 })
+
+        const [request] = server.requests
+        expect(request.path).toBe('/v1/messages')
+        expect(request.headers['x-api-key']).toBe('secret')
+        expect(request.headers['anthropic-version']).toBe('2023-06-01')
+        expect(JSON.parse(request.body)).toEqual({
+            model: 'claude-sonnet',
+            max_tokens: 1024,
+            system: 'Be brief',
+            messages: [{ role: 'user', content: 'Hi' }],
+            stream: false,
+        })
+    })
+
+    it('streams text deltas until message_stop', async () => {
+        const delta = (text: string) => event('content_block_delta', { index: 0, delta: { type: 'text_delta', text } })
+        server = await startFakeServer((_request, response) => sendChunks(response, 'text/event-stream', [
+            event('message_start', { message: {} }),
+            event('ping', {}),
+            delta('Hel'),
+            delta('lo').slice(0, 12),
+            delta('lo').slice(12),
+            event('content_block_stop', { index: 0 }),
+            event('message_stop', {}),
+        ]))
+        const transport = createAnthropicTransport({ baseUrl: server.baseUrl, model: 'claude-sonnet', stream: true })
+
+        const stream = await transport.send('Hi', createContext()) as AsyncIterable<string>
+
+        expect(await collect(stream)).toEqual(['Hel', 'lo'])
+    })
+
+    it('maps 429 responses to rate-limit errors with the retry time', async () => {
+        server = await startFakeServer((_request, response) => sendJson(
+            response,
+            { type: 'error', error: { type: 'rate_limit_error', message: 'Number of requests has exceeded your rate limit' } },
+            429,
+            { 'Retry-After': '30' }
+        ))
+        const transport = createAnthropicTransport({ baseUrl: server.baseUrl, model: 'claude-sonnet' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext())).catch((err: unknown) => err)
+
+        expect(error).toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({
+            code: 'rate-limit',
+            provider: 'Anthropic',
+            status: 429,
+            retryAfterMs: 30000,
+            message: 'Number of requests has exceeded your rate limit',
+        })
+    })
+
+    it('rejects with an AbortError when the request is aborted', async () => {
+        const controller = new AbortController()
+        // Abort once the request has arrived, leaving the response open
+        server = await startFakeServer(() => controller.abort())
+        const transport = createAnthropicTransport({ baseUrl: server.baseUrl, model: 'claude-sonnet' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext(controller.signal))).catch((err: unknown) => err)
+
+        expect(error).not.toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({ name: 'AbortError' })
+    })
+})
@@ -0,0 +1,112 @@
+import { createServer } from 'node:http'
+import type { IncomingHttpHeaders, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { SendContext } from '../../types'
+
+/**
+ * Request received by a fake server, with its body read
+ */
+export interface ReceivedRequest {
+    method: string
+    path: string
+    headers: IncomingHttpHeaders
+    body: string
+}
+
+/**
+ * Local HTTP server standing in for a provider API
+ */
+export interface FakeServer {
+    /** Base URL to point a transport at */
+    baseUrl: string
+    /** Requests received so far */
+    requests: ReceivedRequest[]
+    /** Stop the server, dropping open connections */
+    close: () => Promise<void>
+}
+
+/**
+ * Start a server on a free local port. The handler answers each request
+ * once its body has been read; it may leave the response open.
+ */
+export function startFakeServer(
+    handler: (request: ReceivedRequest, response: ServerResponse) => void
+): Promise<FakeServer> {
+    const requests: ReceivedRequest[] = []
+    const server = createServer((req, res) => {
+        const body: Buffer[] = []
+        req.on('data', (chunk: Buffer) => body.push(chunk))
+        req.on('end', () => {
+            const request: ReceivedRequest = {
+                method: req.method || 'GET',
+                path: req.url || '/',
+                headers: req.headers,
+                body: Buffer.concat(body).toString('utf8'),
+            }
+            requests.push(request)
+            handler(request, res)
+        })
+    })
+
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo
+            resolve({
+                baseUrl: `http://127.0.0.1:${port}/v1`,
+                requests,
+                close: () => new Promise((done) => {
+                    server.closeAllConnections()
+                    server.close(() => done())
+                }),
+            })
+        })
+    })
+}
+
+/**
+ * Answer with a JSON body
+ */
+export function sendJson(
+    response: ServerResponse,
+    body: unknown,
+    status = 200,
+    headers: Record<string, string> = {}
+): void {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    response.end(JSON.stringify(body))
+}
+
+/**
+ * Answer with a body written in separate chunks, so clients see it arrive in pieces
+ */
+export function sendChunks(response: ServerResponse, contentType: string, chunks: string[]): void {
+    response.writeHead(200, { 'Content-Type': contentType })
+    let index = 0
+    const next = () => {
+        if (index === chunks.length) {
+            response.end()
+            return
+        }
+        response.write(chunks[index++])
+        setTimeout(next, 5)
+    }
+    next()
+}
+
+/**
+ * Collect every value of an async iterable
+ */
+export async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = []
+    for await (const value of source) {
+        values.push(value)
+    }
+    return values
+}
+
+/**
+ * Send context for calling a transport directly
+ */
+export function createContext(signal: AbortSignal = new AbortController().signal): SendContext {
+    return { signal, attempt: 1, attachments: [], references: [] }
+}
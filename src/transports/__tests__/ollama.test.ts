@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createOllamaTransport } from '../ollama'
+import { TransportError } from '../errors'
+import { collect, createContext, sendChunks, sendJson, startFakeServer } from './fakeServer'
+import type { FakeServer } from './fakeServer'
+import type { TransportResult } from '../../types'
+
+describe('createOllamaTransport', () => {
+    let server: FakeServer | undefined
+
+    afterEach(async () => {
+        await server?.close()
+        server = undefined
+    })
+
+    it('sends a chat request and normalizes the response', async () => {
+        server = await startFakeServer((_request, response) => sendJson(response, {
+            message: { role: 'assistant', content: 'Hello there' },
+            done: true,
+            done_reason: 'stop',
+            prompt_eval_count: 8,
+            eval_count: 2,
+        }))
+        const transport = createOllamaTransport({
+            baseUrl: server.baseUrl,
+            model: 'llama3.2',
+            systemPrompt: 'Be brief',
+            headers: { 'X-Proxy-Key': 'proxy' },
+        })
+
+        const result = await transport.send('Hi', createContext()) as TransportResult
+
+        expect(result.text).toBe('Hello there')
+        expect(result.finishReason).toBe('stop')
+        expect(result.usage).toEqual({ inputTokens: 8, outputTokens: 2 })
+
+        const [request] = server.requests
+        expect(request.path).toBe('/v1/chat')
+        expect(request.headers['x-proxy-key']).toBe('proxy')
+        expect(JSON.parse(request.body)).toEqual({
+            model: 'llama3.2',
+            messages: [
+                { role: 'system', content: 'Be brief' },
+                { role: 'user', content: 'Hi' },
+            ],
+            stream: false,
+        })
+    })
+
+    it('streams text deltas until done', async () => {
+        const line = (content: string, done = false) => `${JSON.stringify({ message: { content }, done })}\n`
+        server = await startFakeServer((_request, response) => sendChunks(response, 'application/x-ndjson', [
+            line('Hel'),
+            line('lo').slice(0, 8),
+            line('lo').slice(8),
+            line('', true),
+        ]))
+        const transport = createOllamaTransport({ baseUrl: server.baseUrl, model: 'llama3.2', stream: true })
+
+        const stream = await transport.send('Hi', createContext()) as AsyncIterable<string>
+
+        expect(await collect(stream)).toEqual(['Hel', 'lo'])
+        expect(JSON.parse(server.requests[0].body).stream).toBe(true)
+    })
+
+    it('maps 429 responses to rate-limit errors with the retry time', async () => {
+        server = await startFakeServer((_request, response) => sendJson(
+            response,
+            { error: 'too many requests' },
+            429,
+            { 'Retry-After': '5' }
+        ))
+        const transport = createOllamaTransport({ baseUrl: server.baseUrl, model: 'llama3.2' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext())).catch((err: unknown) => err)
+
+        expect(error).toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({
+            code: 'rate-limit',
+            provider: 'Ollama',
+            status: 429,
+            retryAfterMs: 5000,
+            message: 'too many requests',
+        })
+    })
+
+    it('rejects with an AbortError when the request is aborted', async () => {
+        const controller = new AbortController()
+        // Abort once the request has arrived, leaving the response open
+        server = await startFakeServer(() => controller.abort())
+        const transport = createOllamaTransport({ baseUrl: server.baseUrl, model: 'llama3.2' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext(controller.signal))).catch((err: unknown) => err)
+
+        expect(error).not.toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({ name: 'AbortError' })
+    })
+})
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createOpenAITransport } from '../openai'
+import { TransportError } from '../errors'
+import { collect, createContext, sendChunks, sendJson, startFakeServer } from './fakeServer'
+import type { FakeServer } from './fakeServer'
+import type { TransportResult } from '../../types'
+
+describe('createOpenAITransport', () => {
+    let server: FakeServer | undefined
+
+    afterEach(async () => {
+        await server?.close()
+        server = undefined
+    })
+
+    it('sends a chat completion and normalizes the response', async () => {
+        server = await startFakeServer((_request, response) => sendJson(response, {
+            choices: [{ message: { role: 'assistant', content: 'Hello there' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 12, completion_tokens: 3 },
+        }))
+        const transport = createOpenAITransport({
+            baseUrl: server.baseUrl,
+            model: 'gpt-4o-mini',
+            systemPrompt: 'Be brief',
+            getToken: () => 'secret',
+        })
+
+        const result = await transport.send('Hi', createContext()) as TransportResult
+
+        expect(result.text).toBe('Hello there')
+        expect(result.finishReason).toBe('stop')
+        expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 3 })
+
+        const [request] = server.requests
+        expect(request.method).toBe('POST')
+        expect(request.path).toBe('/v1/chat/completions')
+        expect(request.headers.authorization).toBe('Bearer secret')
+        expect(JSON.parse(request.body)).toEqual({
+            model: 'gpt-4o-mini',
+            messages: [
+                { role: 'system', content: 'Be brief' },
+                { role: 'user', content: 'Hi' },
+            ],
+            stream: false,
+        })
+    })
+
+    it('streams text deltas until [DONE]', async () => {
+        const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`
+        server = await startFakeServer((_request, response) => sendChunks(response, 'text/event-stream', [
+            ': keep-alive\n\n',
+            event('Hel'),
+            // An event split across chunks
+            event('lo').slice(0, 10),
+            event('lo').slice(10),
+            'data: [DONE]\n\n',
+        ]))
+        const transport = createOpenAITransport({ baseUrl: server.baseUrl, model: 'gpt-4o-mini', stream: true })
+
+        const stream = await transport.send('Hi', createContext()) as AsyncIterable<string>
+
+        expect(await collect(stream)).toEqual(['Hel', 'lo'])
+        expect(JSON.parse(server.requests[0].body).stream).toBe(true)
+    })
+
+    it('maps 429 responses to rate-limit errors with the retry time', async () => {
+        server = await startFakeServer((_request, response) => sendJson(
+            response,
+            { error: { message: 'Rate limit reached', type: 'requests' } },
+            429,
+            { 'Retry-After': '2' }
+        ))
+        const transport = createOpenAITransport({ baseUrl: server.baseUrl, model: 'gpt-4o-mini' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext())).catch((err: unknown) => err)
+
+        expect(error).toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({
+            code: 'rate-limit',
+            provider: 'OpenAI',
+            status: 429,
+            retryAfterMs: 2000,
+            message: 'Rate limit reached',
+        })
+    })
+
+    it('rejects with an AbortError when the request is aborted', async () => {
+        const controller = new AbortController()
+        // Abort once the request has arrived, leaving the response open
+        server = await startFakeServer(() => controller.abort())
+        const transport = createOpenAITransport({ baseUrl: server.baseUrl, model: 'gpt-4o-mini' })
+
+        const error = await Promise.resolve(transport.send('Hi', createContext(controller.signal))).catch((err: unknown) => err)
+
+        expect(error).not.toBeInstanceOf(TransportError)
+        expect(error).toMatchObject({ name: 'AbortError' })
+    })
+
+    it('sends audio to the transcription endpoint', async () => {
+        server = await startFakeServer((_request, response) => sendJson(response, { text: 'Transcribed' }))
+        const transport = createOpenAITransport({ baseUrl: server.baseUrl, model: 'gpt-4o-mini' })
+
+        const audio = new Blob(['audio'], { type: 'audio/webm' })
+        const result = await transport.sendAudio!(audio, createContext()) as TransportResult
+
+        expect(result.text).toBe('Transcribed')
+        const [request] = server.requests
+        expect(request.path).toBe('/v1/audio/transcriptions')
+        expect(request.headers['content-type']).toMatch(/^multipart\/form-data/)
+        expect(request.body).toContain('filename="audio.webm"')
+        expect(request.body).toContain('whisper-1')
+    })
+})
@@ -0,0 +1,121 @@
+import { parseSSE } from '../utils/sse'
+import { TransportError } from './errors'
+import type { TransportErrorCode } from './errors'
+import { buildHeaders, encodeAttachments, joinUrl, readJson, request, requireText } from './shared'
+import type {
+    AnthropicTransportOptions,
+    ProviderTransport,
+    SendContext,
+    TransportResult,
+} from '../types'
+
+const PROVIDER = 'Anthropic'
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1'
+
+/**
+ * Error codes for error types reported inside event streams
+ */
+const STREAM_ERROR_CODES: Record<string, TransportErrorCode> = {
+    authentication_error: 'authentication',
+    permission_error: 'authentication',
+    rate_limit_error: 'rate-limit',
+    invalid_request_error: 'invalid-request',
+    not_found_error: 'invalid-request',
+    api_error: 'server',
+    overloaded_error: 'server',
+}
+
+/**
+ * Stream text deltas from a Messages API event stream
+ */
+async function* streamDeltas(response: Response): AsyncGenerator<string> {
+    for await (const event of parseSSE(response)) {
+        if (event.event === 'message_stop') return
+
+        const data = JSON.parse(event.data) as Record<string, unknown>
+
+        if (data.type === 'error') {
+            const error = (data.error || {}) as { type?: string; message?: string }
+            throw new TransportError(error.message || `${PROVIDER} stream failed`, {
+                code: STREAM_ERROR_CODES[error.type || ''] || 'unknown',
+                provider: PROVIDER,
+                details: data,
+            })
+        }
+
+        if (data.type === 'content_block_delta') {
+            const delta = data.delta as { type?: string; text?: unknown } | undefined
+            if (delta?.type === 'text_delta' && typeof delta.text === 'string' && delta.text) {
+                yield delta.text
+            }
+        }
+    }
+}
+
+/**
+ * Create a transport function for the Anthropic Messages API.
+ * Image and PDF attachments are sent as content blocks.
+ *
+ * @param options - Transport configuration
+ * @returns `send` for text (audio input is not supported)
+ */
+export function createAnthropicTransport(options: AnthropicTransportOptions): ProviderTransport {
+    const baseUrl = options.baseUrl || DEFAULT_BASE_URL
+    const authHeaders = (token: string) => ({ 'x-api-key': token })
+
+    const send = async (
+        input: string | Blob,
+        context: SendContext
+    ): Promise<TransportResult | AsyncIterable<string>> => {
+        const text = requireText(PROVIDER, input)
+
+        const files = await encodeAttachments(PROVIDER, context.attachments, ['application/pdf'])
+        const content = files.length > 0
+            ? [
+                ...files.map(({ attachment, data }) => ({
+                    type: attachment.mimeType === 'application/pdf' ? 'document' : 'image',
+                    source: { type: 'base64', media_type: attachment.mimeType, data },
+                })),
+                { type: 'text', text },
+            ]
+            : text
+
+        const response = await request(PROVIDER, options, joinUrl(baseUrl, 'messages'), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'anthropic-version': options.apiVersion || '2023-06-01',
+                ...await buildHeaders(options, authHeaders),
+            },
+            body: JSON.stringify({
+                model: options.model,
+                max_tokens: options.maxTokens || 1024,
+                ...(options.systemPrompt ? { system: options.systemPrompt } : {}),
+                messages: [{ role: 'user', content }],
+                stream: Boolean(options.stream),
+            }),
+            signal: context.signal,
+        })
+
+        if (options.stream) {
+            return streamDeltas(response)
+        }
+
+        const data = await readJson(PROVIDER, response)
+        const blocks = (data.content as { type?: string; text?: string }[] | undefined) || []
+        const usage = data.usage as { input_tokens?: number; output_tokens?: number } | undefined
+        return {
+            text: blocks
+                .filter((block) => block.type === 'text' && typeof block.text === 'string')
+                .map((block) => block.text)
+                .join(''),
+            finishReason: typeof data.stop_reason === 'string' ? data.stop_reason : undefined,
+            usage: usage
+                ? { inputTokens: usage.input_tokens ?? 0, outputTokens: usage.output_tokens ?? 0 }
+                : undefined,
+            raw: data,
+        }
+    }
+
+    return { send }
+}
@@ -0,0 +1,64 @@
+/**
+ * Normalized category of a transport failure
+ */
+export type TransportErrorCode =
+    | 'authentication'
+    | 'rate-limit'
+    | 'invalid-request'
+    | 'server'
+    | 'network'
+    | 'unknown'
+
+/**
+ * Error thrown by built-in provider transports.
+ * Provider-specific error bodies are mapped to a common code.
+ */
+export class TransportError extends Error {
+    /** Normalized error category */
+    readonly code: TransportErrorCode
+    /** Provider that produced the error */
+    readonly provider: string
+    /** HTTP status, when the error came from a response */
+    readonly status?: number
+    /** Parsed error body from the provider, if any */
+    readonly details?: unknown
+    /** Time until the provider accepts requests again, from its rate limit headers */
+    readonly retryAfterMs?: number
+
+    constructor(
+        message: string,
+        options: {
+            code: TransportErrorCode
+            provider: string
+            status?: number
+            details?: unknown
+            retryAfterMs?: number
+        }
+    ) {
+        super(message)
+        this.name = 'TransportError'
+        this.code = options.code
+        this.provider = options.provider
+        this.status = options.status
+        this.details = options.details
+        this.retryAfterMs = options.retryAfterMs
+    }
+
+    /** Whether retrying the same request may succeed */
+    get retryable(): boolean {
+        return this.code === 'rate-limit'
+            || this.code === 'server'
+            || this.code === 'network'
+    }
+}
+
+/**
+ * Map an HTTP status to an error code
+ */
+export function getErrorCode(status: number): TransportErrorCode {
+    if (status === 401 || status === 403) return 'authentication'
+    if (status === 429) return 'rate-limit'
+    if (status >= 500) return 'server'
+    if (status >= 400) return 'invalid-request'
+    return 'unknown'
+}
@@ -0,0 +1,102 @@
+import { parseNDJSON } from '../utils/sse'
+import { createProviderError, buildHeaders, encodeAttachments, joinUrl, readJson, request, requireText } from './shared'
+import type {
+    OllamaTransportOptions,
+    ProviderTransport,
+    SendContext,
+    TransportResult,
+} from '../types'
+
+const PROVIDER = 'Ollama'
+const DEFAULT_BASE_URL = 'http://localhost:11434/api'
+
+/**
+ * Chat response line from the Ollama API
+ */
+interface OllamaChatChunk {
+    message?: { content?: string }
+    done?: boolean
+    done_reason?: string
+    prompt_eval_count?: number
+    eval_count?: number
+    error?: string
+}
+
+/**
+ * Stream text deltas from newline-delimited chat responses
+ */
+async function* streamDeltas(response: Response): AsyncGenerator<string> {
+    for await (const chunk of parseNDJSON<OllamaChatChunk>(response)) {
+        if (chunk.error) {
+            throw createProviderError(PROVIDER, chunk)
+        }
+        if (chunk.message?.content) {
+            yield chunk.message.content
+        }
+        if (chunk.done) return
+    }
+}
+
+/**
+ * Create a transport function for the Ollama chat API.
+ * Image attachments are sent to multimodal models.
+ *
+ * @param options - Transport configuration
+ * @returns `send` for text (audio input is not supported)
+ */
+export function createOllamaTransport(options: OllamaTransportOptions): ProviderTransport {
+    const baseUrl = options.baseUrl || DEFAULT_BASE_URL
+    const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` })
+
+    const send = async (
+        input: string | Blob,
+        context: SendContext
+    ): Promise<TransportResult | AsyncIterable<string>> => {
+        const text = requireText(PROVIDER, input)
+        const images = await encodeAttachments(PROVIDER, context.attachments)
+
+        const messages = [
+            ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+            {
+                role: 'user',
+                content: text,
+                ...(images.length > 0 ? { images: images.map(({ data }) => data) } : {}),
+            },
+        ]
+
+        const response = await request(PROVIDER, options, joinUrl(baseUrl, 'chat'), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...await buildHeaders(options, authHeaders),
+            },
+            body: JSON.stringify({
+                model: options.model,
+                messages,
+                // Ollama streams by default, so always send the flag
+                stream: Boolean(options.stream),
+                ...(options.modelOptions ? { options: options.modelOptions } : {}),
+            }),
+            signal: context.signal,
+        })
+
+        if (options.stream) {
+            return streamDeltas(response)
+        }
+
+        const data = await readJson(PROVIDER, response) as OllamaChatChunk
+        if (data.error) {
+            throw createProviderError(PROVIDER, data)
+        }
+        return {
+            text: data.message?.content || '',
+            finishReason: data.done_reason,
+            usage: data.eval_count !== undefined
+                ? { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count }
+                : undefined,
+            raw: data,
+        }
+    }
+
+    return { send }
+}
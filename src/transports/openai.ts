@@ -0,0 +1,125 @@
+import { parseSSE } from '../utils/sse'
+import { createProviderError, buildHeaders, encodeAttachments, joinUrl, readJson, request } from './shared'
+import type {
+    OpenAITransportOptions,
+    ProviderTransport,
+    SendContext,
+    TransportResult,
+} from '../types'
+
+const PROVIDER = 'OpenAI'
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+/**
+ * Pick a file name the transcription endpoint can infer the format from
+ */
+function getAudioFileName(blob: Blob): string {
+    const subtype = (blob.type.split(';')[0].split('/')[1] || 'webm').toLowerCase()
+    const extension = subtype === 'mpeg' ? 'mp3' : subtype.replace(/^x-/, '')
+    return `audio.${extension}`
+}
+
+/**
+ * Stream text deltas from a chat completions event stream
+ */
+async function* streamDeltas(response: Response): AsyncGenerator<string> {
+    // parseSSE ends at the [DONE] sentinel
+    for await (const event of parseSSE(response)) {
+        const data = JSON.parse(event.data) as Record<string, unknown>
+        if (data.error) {
+            throw createProviderError(PROVIDER, data)
+        }
+
+        const choices = data.choices as { delta?: { content?: unknown } }[] | undefined
+        const content = choices?.[0]?.delta?.content
+        if (typeof content === 'string' && content) {
+            yield content
+        }
+    }
+}
+
+/**
+ * Create transport functions for the OpenAI Chat Completions and
+ * Audio Transcriptions APIs, or any OpenAI-compatible server.
+ *
+ * @param options - Transport configuration
+ * @returns `send` for text and `sendAudio` for transcription
+ */
+export function createOpenAITransport(options: OpenAITransportOptions): ProviderTransport {
+    const baseUrl = options.baseUrl || DEFAULT_BASE_URL
+    const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` })
+
+    const sendAudio = async (input: string | Blob, { signal }: SendContext): Promise<TransportResult> => {
+        const blob = typeof input === 'string' ? new Blob([input]) : input
+        const formData = new FormData()
+        formData.append('file', blob, getAudioFileName(blob))
+        formData.append('model', options.transcriptionModel || 'whisper-1')
+
+        const response = await request(PROVIDER, options, joinUrl(baseUrl, 'audio/transcriptions'), {
+            method: 'POST',
+            headers: await buildHeaders(options, authHeaders),
+            body: formData,
+            signal,
+        })
+        const data = await readJson(PROVIDER, response)
+        return { text: typeof data.text === 'string' ? data.text : '', raw: data }
+    }
+
+    const send = async (
+        input: string | Blob,
+        context: SendContext
+    ): Promise<TransportResult | AsyncIterable<string>> => {
+        if (typeof input !== 'string') {
+            return sendAudio(input, context)
+        }
+
+        const images = await encodeAttachments(PROVIDER, context.attachments)
+        const content = images.length > 0
+            ? [
+                { type: 'text', text: input },
+                ...images.map(({ attachment, data }) => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${attachment.mimeType};base64,${data}` },
+                })),
+            ]
+            : input
+
+        const messages = [
+            ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+            { role: 'user', content },
+        ]
+
+        const response = await request(PROVIDER, options, joinUrl(baseUrl, 'chat/completions'), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...await buildHeaders(options, authHeaders),
+            },
+            body: JSON.stringify({
+                model: options.model,
+                messages,
+                stream: Boolean(options.stream),
+                ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+            }),
+            signal: context.signal,
+        })
+
+        if (options.stream) {
+            return streamDeltas(response)
+        }
+
+        const data = await readJson(PROVIDER, response)
+        const choice = (data.choices as { message?: { content?: unknown }; finish_reason?: string }[] | undefined)?.[0]
+        const usage = data.usage as { prompt_tokens?: number; completion_tokens?: number } | undefined
+        return {
+            text: typeof choice?.message?.content === 'string' ? choice.message.content : '',
+            finishReason: choice?.finish_reason,
+            usage: usage
+                ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 }
+                : undefined,
+            raw: data,
+        }
+    }
+
+    return { send, sendAudio }
+}
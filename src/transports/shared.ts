@@ -0,0 +1,180 @@
+import { TransportError, getErrorCode } from './errors'
+import { readRateLimitHeaders } from '../rateLimit/server'
+import type { AiInputAttachment, ProviderTransportOptions } from '../types'
+
+/**
+ * Join a base URL and a path without doubling slashes
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+    return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * Build request headers, resolving the token getter if provided
+ *
+ * @param options - Transport options
+ * @param authHeaders - Maps a token to provider-specific auth headers
+ */
+export async function buildHeaders(
+    options: ProviderTransportOptions,
+    authHeaders: (token: string) => Record<string, string>
+): Promise<Record<string, string>> {
+    const token = options.getToken ? await options.getToken() : null
+    return {
+        ...(token ? authHeaders(token) : {}),
+        ...options.headers,
+    }
+}
+
+/**
+ * Extract a human-readable message from a provider error body.
+ * Covers { error: { message } }, { error: 'message' } and { message }.
+ */
+function getErrorMessage(body: unknown): string | null {
+    if (!body || typeof body !== 'object') {
+        return typeof body === 'string' && body ? body : null
+    }
+    const record = body as Record<string, unknown>
+    const error = record.error
+    if (typeof error === 'string') return error
+    if (error && typeof error === 'object') {
+        const message = (error as Record<string, unknown>).message
+        if (typeof message === 'string') return message
+    }
+    return typeof record.message === 'string' ? record.message : null
+}
+
+/**
+ * Create a TransportError from a provider error body
+ */
+export function createProviderError(
+    provider: string,
+    body: unknown,
+    status?: number,
+    retryAfterMs?: number
+): TransportError {
+    return new TransportError(
+        getErrorMessage(body) || `${provider} request failed${status ? ` with status ${status}` : ''}`,
+        {
+            code: status ? getErrorCode(status) : 'unknown',
+            provider,
+            status,
+            details: body,
+            retryAfterMs,
+        }
+    )
+}
+
+/**
+ * Perform a request, mapping network failures and error responses to TransportError.
+ * Aborts are re-thrown unchanged so cancellation is not reported as an error.
+ */
+export async function request(
+    provider: string,
+    options: ProviderTransportOptions,
+    url: string,
+    init: RequestInit
+): Promise<Response> {
+    const fetchFn = options.fetch || fetch
+
+    let response: Response
+    try {
+        response = await fetchFn(url, init)
+    } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+            throw err
+        }
+        throw new TransportError(
+            err instanceof Error ? err.message : `${provider} request failed`,
+            { code: 'network', provider, details: err }
+        )
+    }
+
+    if (!response.ok) {
+        const text = await response.text().catch(() => '')
+        let body: unknown = text
+        try {
+            body = JSON.parse(text)
+        } catch {
+            // Not JSON - keep the raw text
+        }
+        throw createProviderError(
+            provider,
+            body,
+            response.status,
+            readRateLimitHeaders(response)?.retryAfterMs
+        )
+    }
+
+    return response
+}
+
+/**
+ * Read a JSON response body
+ */
+export async function readJson(provider: string, response: Response): Promise<Record<string, unknown>> {
+    try {
+        return await response.json() as Record<string, unknown>
+    } catch {
+        throw new TransportError(`${provider} returned an invalid JSON response`, {
+            code: 'unknown',
+            provider,
+            status: response.status,
+        })
+    }
+}
+
+/**
+ * Encode a Blob as base64 without a data URL prefix
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    let binary = ''
+    // Encode in slices to stay within argument count limits
+    const sliceSize = 0x8000
+    for (let i = 0; i < bytes.length; i += sliceSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize))
+    }
+    return btoa(binary)
+}
+
+/**
+ * Encode image attachments as base64.
+ * Throws for attachment types the provider can't accept.
+ *
+ * @param provider - Provider name for error messages
+ * @param attachments - Attachments to encode
+ * @param supportedTypes - Extra non-image MIME types the provider accepts
+ */
+export async function encodeAttachments(
+    provider: string,
+    attachments: AiInputAttachment[],
+    supportedTypes: string[] = []
+): Promise<{ attachment: AiInputAttachment; data: string }[]> {
+    for (const attachment of attachments) {
+        if (!attachment.mimeType.startsWith('image/') && !supportedTypes.includes(attachment.mimeType)) {
+            throw new TransportError(
+                `${provider} does not support ${attachment.mimeType} attachments (${attachment.name})`,
+                { code: 'invalid-request', provider }
+            )
+        }
+    }
+
+    return Promise.all(attachments.map(async (attachment) => ({
+        attachment,
+        data: await blobToBase64(attachment.data),
+    })))
+}
+
+/**
+ * Reject audio input for providers without speech-to-text
+ */
+export function requireText(provider: string, input: string | Blob): string {
+    if (typeof input !== 'string') {
+        throw new TransportError(`${provider} does not support audio input`, {
+            code: 'invalid-request',
+            provider,
+        })
+    }
+    return input
+}
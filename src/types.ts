@@ -10,10 +10,13 @@ import type { ReactNode } from 'react'
 export type AiInputState =
     | 'idle'
     | 'loading'
+    | 'streaming'
     | 'success'
     | 'error'
+    | 'cancelled'
     | 'rate-limited'
     | 'recording'
+    | 'review'
 
 // =============================================================================
 // CONFIGURATION
@@ -31,33 +34,1044 @@ export interface RateLimitConfig {
     maxRequests: number
     /** Time window in milliseconds for counting requests */
     windowMs: number
+    /** 
+     * How the budget is counted:
+     * - 'sliding-window': at most maxRequests per windowMs (default)
+     * - 'token-bucket': maxRequests tokens, refilled continuously over windowMs
+     */
+    strategy?: RateLimitStrategy
+    /** Cost of each request type (default: 1 per request) */
+    weights?: Partial<RateLimitWeights>
+    /** Separate budget for text requests (overrides the settings above) */
+    text?: Partial<RateLimitBudget>
+    /** Separate budget for audio requests (overrides the settings above) */
+    audio?: Partial<RateLimitBudget>
+    /** 
+     * Budget name. Limiters with the same key share one budget - across
+     * AiInput instances, and across tabs with persistent storage.
+     * Without a key, each limiter has its own budget.
+     */
+    key?: string
+    /** 
+     * Where the budget is kept (used with `key`):
+     * - 'memory': shared within the page, lost on reload (default)
+     * - 'local': localStorage, survives reloads and syncs across tabs
+     * - a custom storage adapter
+     */
+    storage?: 'memory' | 'local' | RateLimitStorage
+    /** 
+     * Read the server's rate limit from each value returned by `send`
+     * (default: readRateLimitHeaders, for Responses with rate limit headers)
+     */
+    readResponse?: (response: unknown) => ServerRateLimit | null
+    /** 
+     * Resend a request rejected by the server's rate limit once requests are allowed again
+     * @default false
+     */
+    autoResubmit?: boolean
+}
+
+/**
+ * Rate limit budget counting strategy
+ */
+export type RateLimitStrategy = 'sliding-window' | 'token-bucket'
+
+/**
+ * Request types with their own rate limit budgets
+ */
+export type RateLimitRequestType = 'text' | 'audio'
+
+/**
+ * Budget settings that can differ per request type
+ */
+export type RateLimitBudget = Pick<RateLimitConfig, 'cooldownMs' | 'maxRequests' | 'windowMs' | 'strategy'>
+
+/**
+ * Cost of requests against the rate limit budget
+ */
+export interface RateLimitWeights {
+    /** 
+     * Cost of a text request 
+     * @default 1
+     */
+    text: number
+    /** 
+     * Base cost of an audio request 
+     * @default 1
+     */
+    audio: number
+    /** 
+     * Additional cost per second of recorded audio 
+     * @default 0
+     */
+    audioPerSecond: number
+}
+
+/**
+ * Rate limit reported by the server
+ */
+export interface ServerRateLimit {
+    /** Time until the server accepts requests again in milliseconds */
+    retryAfterMs?: number
+    /** Requests left in the server's window */
+    remaining?: number
+    /** Time until the server's window resets in milliseconds */
+    resetMs?: number
+}
+
+/**
+ * Persisted rate limiter budget
+ */
+export interface RateLimitRecord {
+    /** Times of requests in the current window */
+    timestamps: number[]
+    /** When the current cooldown ends */
+    cooldownEnd: number
+    /** Until when the server rejects requests */
+    blockedUntil?: number
+    /** Requests left according to the server */
+    serverRemaining?: number
+    /** When the server's count stops applying */
+    serverResetAt?: number
+    /** Cost of each request in `timestamps` (1 when missing) */
+    costs?: number[]
+    /** Tokens left in the bucket (token-bucket strategy) */
+    tokens?: number
+    /** When `tokens` was last refilled */
+    refilledAt?: number
+}
+
+/**
+ * Storage adapter for rate limiter budgets
+ */
+export interface RateLimitStorage {
+    /** Read the budget for a key, or null when none is stored */
+    get: (key: string) => RateLimitRecord | null
+    /** Store the budget for a key */
+    set: (key: string, record: RateLimitRecord) => void
+    /** Remove the budget for a key */
+    remove: (key: string) => void
+    /** 
+     * Listen for changes made in other tabs (optional); returns an unsubscribe function.
+     * Changes are also announced to other tabs through BroadcastChannel.
+     */
+    subscribe?: (key: string, listener: () => void) => () => void
+}
+
+/**
+ * Options for the RateLimiter class
+ */
+export interface RateLimiterOptions extends RateLimitBudget, Pick<RateLimitConfig, 'key' | 'storage'> {
+    /**
+     * Follow and announce budget changes across tabs (BroadcastChannel and
+     * storage events). Default: true for 'local' and custom storage with a key.
+     */
+    crossTab?: boolean
+    /** Clock in milliseconds, injectable for deterministic tests (default: Date.now) */
+    now?: () => number
+}
+
+/**
+ * Audio recording configuration
+ */
+export interface AudioConfig {
+    /** Maximum recording duration in milliseconds */
+    maxDurationMs: number
+    /** 
+     * Allowed MIME types for recording 
+     * @example ['audio/webm', 'audio/mp4', 'audio/ogg']
+     */
+    mimeTypes: string[]
+    /** 
+     * Input level (RMS, 0-1) above which audio counts as speech 
+     * @default 0.015
+     */
+    silenceThreshold: number
+    /** 
+     * Silence after speech before recording stops automatically, in milliseconds 
+     * @default 1500
+     */
+    silenceDurationMs: number
+    /** 
+     * Speech needed before silence can stop the recording, in milliseconds.
+     * Recordings with less speech are discarded unless `discardWithoutSpeech` is false.
+     * @default 250
+     */
+    minSpeechDurationMs: number
+    /** 
+     * Stop recording automatically once the user stops talking 
+     * @default false
+     */
+    autoStopOnSilence: boolean
+    /** 
+     * Discard recordings with less than `minSpeechDurationMs` of speech
+     * with a "No speech detected" error instead of sending them.
+     * Set to false to send every recording, e.g. for music or ambient audio.
+     * @default true
+     */
+    discardWithoutSpeech?: boolean
+    /** 
+     * Hold the recording in the 'review' state for playback
+     * until it is sent or discarded
+     * @default false
+     */
+    confirmBeforeSend: boolean
+    /** 
+     * Format of the recording passed to sendAudio.
+     * 'wav' transcodes to mono PCM16 WAV in the browser.
+     * @default 'native'
+     */
+    outputFormat: AudioOutputFormat
+    /** 
+     * Sample rate of 'wav' output in Hz 
+     * @default 16000
+     */
+    outputSampleRate: number
+    /** 
+     * Peak-normalize 'wav' output 
+     * @default false
+     */
+    normalize: boolean
+    /** 
+     * Microphone to record from, from enumerateDevices().
+     * A device the user picked takes precedence.
+     */
+    deviceId?: string
+    /** Echo cancellation (default: browser default) */
+    echoCancellation?: boolean
+    /** Noise suppression (default: browser default) */
+    noiseSuppression?: boolean
+    /** Automatic gain control (default: browser default) */
+    autoGainControl?: boolean
+    /** Preferred capture sample rate in Hz (default: browser default) */
+    sampleRate?: number
+    /** Preferred number of capture channels (default: browser default) */
+    channelCount?: number
+    /** Waveform visualization */
+    waveform?: Partial<WaveformConfig>
+}
+
+/**
+ * Waveform analysis:
+ * - 'time': amplitude across the current audio frame
+ * - 'frequency': spectrum of the current audio frame
+ */
+export type WaveformMode = 'time' | 'frequency'
+
+/**
+ * Waveform visualization configuration
+ */
+export interface WaveformConfig {
+    /** 
+     * Number of bars 
+     * @default 16
+     */
+    bars: number
+    /** 
+     * Analysis mode 
+     * @default 'time'
+     */
+    mode: WaveformMode
+    /** Level amplification (default: 2.5 for 'time', 1.5 for 'frequency') */
+    gain?: number
+    /** Smoothing between frames, 0 (none) to 1 (default: 0 for 'time', 0.8 for 'frequency') */
+    smoothing?: number
+    /** 
+     * Scrolling history: each bar is the input level at one point in time, newest on the right 
+     * @default false
+     */
+    history: boolean
+    /** 
+     * Time between history bars in milliseconds 
+     * @default 50
+     */
+    historyIntervalMs: number
+}
+
+/**
+ * Audio levels updated every animation frame while recording,
+ * readable without re-rendering React components
+ */
+export interface AudioLevelsSource {
+    /** Latest levels (0-1) */
+    getLevels: () => number[]
+    /** Listen for new levels; returns an unsubscribe function */
+    subscribe: (listener: (levels: number[]) => void) => () => void
+}
+
+/**
+ * Recording output format:
+ * - 'native': whatever MediaRecorder produces (webm/opus, mp4, ...)
+ * - 'wav': mono PCM16 WAV, transcoded after recording
+ */
+export type AudioOutputFormat = 'native' | 'wav'
+
+/**
+ * Options for transcoding recordings to WAV
+ */
+export interface AudioTranscodeOptions {
+    /** Output sample rate in Hz */
+    sampleRate: number
+    /** Scale the loudest sample to just below full scale */
+    normalize: boolean
+}
+
+/**
+ * Microphone permission state.
+ * 'unsupported' when the browser cannot capture audio.
+ */
+export type MicPermission = 'granted' | 'denied' | 'prompt' | 'unsupported'
+
+/**
+ * File attachment configuration
+ */
+export interface AttachmentConfig {
+    /** 
+     * Accepted file types, in the format of the file input `accept` attribute
+     * @example 'image/*,application/pdf,.md'
+     */
+    accept: string
+    /** Maximum number of attached files */
+    maxFiles: number
+    /** Maximum size of a single file in bytes */
+    maxFileSize: number
+}
+
+/**
+ * Retry configuration for failed requests
+ */
+export interface RetryConfig {
+    /** Maximum number of attempts, including the first one */
+    maxAttempts: number
+    /** Delay before the first retry in milliseconds */
+    initialDelayMs: number
+    /** Multiplier applied to the delay after each failed attempt */
+    backoffFactor: number
+    /** Upper bound for a single delay in milliseconds */
+    maxDelayMs: number
+    /** Randomization factor (0-1) applied to each delay */
+    jitter: number
+    /** 
+     * Decide whether an error should be retried
+     * @param error - Error thrown by the transport
+     * @param attempt - Attempt that failed (1-based)
+     */
+    shouldRetry: (error: Error, attempt: number) => boolean
+}
+
+/**
+ * What happens with the transcript of a recording
+ * - 'insert': put it in the textarea (default)
+ * - 'send': forward it through `send` as a text prompt (voice → STT → LLM)
+ * - 'review': put it in the textarea, highlighted, until the user confirms
+ */
+export type TranscriptionMode = 'insert' | 'send' | 'review'
+
+/**
+ * Draft autosave configuration
+ */
+export interface DraftConfig {
+    /** Storage key of the draft */
+    key: string
+    /** 
+     * Where the draft is kept:
+     * - 'local': localStorage, survives restarts and syncs across tabs (default)
+     * - 'session': sessionStorage, survives reloads of this tab
+     * - a custom storage adapter, e.g. createIndexedDBDraftStorage() to keep
+     *   attachments and unsent recordings too
+     */
+    storage?: 'local' | 'session' | DraftStorage
+    /** 
+     * Time after the last edit before the draft is saved, in milliseconds 
+     * @default 500
+     */
+    debounceMs?: number
+}
+
+/**
+ * Recording held for review, as kept in a draft
+ */
+export interface DraftRecording {
+    /** Recorded audio */
+    blob: Blob
+    /** Recording duration in milliseconds */
+    durationMs: number
+}
+
+/**
+ * Saved draft
+ */
+export interface DraftRecord {
+    /** Text in the input */
+    text: string
+    /** When the draft was saved */
+    updatedAt: number
+    /** Pending attachments (storages with `storesBlobs` only) */
+    attachments?: AiInputAttachment[]
+    /** Recording under review (storages with `storesBlobs` only) */
+    recording?: DraftRecording
+}
+
+/**
+ * Storage adapter for drafts. Methods may be synchronous or return promises.
+ */
+export interface DraftStorage {
+    /** Read the draft for a key, or null when none is stored */
+    get: (key: string) => DraftRecord | null | Promise<DraftRecord | null>
+    /** Store the draft for a key */
+    set: (key: string, record: DraftRecord) => void | Promise<void>
+    /** Remove the draft for a key */
+    remove: (key: string) => void | Promise<void>
+    /** Listen for changes made in other tabs (optional); returns an unsubscribe function */
+    subscribe?: (key: string, listener: () => void) => () => void
+    /** Whether Blobs can be stored, so attachments and recordings are kept (default: false) */
+    storesBlobs?: boolean
+}
+
+/**
+ * Inline completion configuration
+ */
+export interface CompletionConfig {
+    /** 
+     * Pause in typing before a completion is requested, in milliseconds 
+     * @default 300
+     */
+    debounceMs: number
+    /** 
+     * Characters typed before completions are requested 
+     * @default 3
+     */
+    minLength: number
+    /** 
+     * Budget for completion requests, separate from the submit budget.
+     * Without a key, each input has its own.
+     * @default { cooldownMs: 0, maxRequests: 30, windowMs: 60000 }
+     */
+    rateLimit: Partial<RateLimitBudget> & Pick<RateLimitConfig, 'key' | 'storage'>
+}
+
+/**
+ * Prompt history configuration
+ */
+export interface HistoryConfig {
+    /**
+     * Maximum number of prompts kept; the oldest are dropped
+     * @default 100
+     */
+    maxEntries: number
+    /** Storage key to persist the history under; kept in memory only without it */
+    key?: string
+    /**
+     * Where persisted history is kept:
+     * - 'local': localStorage, shared by tabs (default)
+     * - 'session': sessionStorage, for this tab
+     */
+    storage?: 'local' | 'session'
+}
+
+// =============================================================================
+// SPEECH RECOGNITION
+// =============================================================================
+
+/**
+ * Transcript update from a recognition engine
+ */
+export interface RecognitionResult {
+    /** Recognized text */
+    transcript: string
+    /** 
+     * Whether the text is final.
+     * Interim results replace each other; final results accumulate.
+     */
+    isFinal: boolean
+}
+
+/**
+ * Options for starting a recognition session
+ */
+export interface RecognitionStartOptions {
+    /** BCP 47 language tag, e.g. 'en-US' */
+    language: string
+    /** Keep listening across pauses instead of stopping after the first phrase */
+    continuous: boolean
+    /** Called for every interim and final result */
+    onResult: (result: RecognitionResult) => void
+    /** Called when recognition fails */
+    onError: (error: Error) => void
+    /** Called when the session ends, after stop() or on its own */
+    onEnd: () => void
+}
+
+/**
+ * Running recognition session
+ */
+export interface RecognitionSession {
+    /** Stop listening and deliver the remaining results */
+    stop: () => void
+    /** Stop listening and discard pending results */
+    abort: () => void
+}
+
+/**
+ * Pluggable live speech recognition engine
+ */
+export interface RecognitionEngine {
+    /** Whether the engine can run in the current environment */
+    isSupported: () => boolean
+    /** Start a recognition session */
+    start: (options: RecognitionStartOptions) => RecognitionSession
+}
+
+/**
+ * Live speech recognition configuration.
+ * When the engine is unsupported, recordings are uploaded through sendAudio instead.
+ */
+export interface SpeechRecognitionConfig {
+    /** Recognition engine (default: Web Speech API) */
+    engine: RecognitionEngine
+    /** BCP 47 language tag (default: browser language) */
+    language: string
+    /** Keep listening across pauses (default: true) */
+    continuous: boolean
+}
+
+// =============================================================================
+// STREAMING TRANSCRIPTION
+// =============================================================================
+
+/**
+ * Audio captured while recording, as delivered to a streaming transcriber:
+ * - 'encoded': a MediaRecorder chunk (webm/opus, mp4, ...), every 100ms
+ * - 'pcm': mono float samples (-1 to 1) from an AudioWorklet
+ */
+export type AudioChunk =
+    | { kind: 'encoded'; data: Blob }
+    | { kind: 'pcm'; samples: Float32Array; sampleRate: number }
+
+/**
+ * Callbacks for a streaming transcription session
+ */
+export interface StreamingTranscriberStartOptions {
+    /** Partial (isFinal: false) or final transcript for the audio sent so far */
+    onTranscript: (result: RecognitionResult) => void
+    /** Called when the session fails */
+    onError: (error: Error) => void
+}
+
+/**
+ * A running streaming transcription session
+ */
+export interface StreamingTranscriberSession {
+    /** Send captured audio */
+    send: (chunk: AudioChunk) => void
+    /** Signal the end of audio; resolves once final transcripts are delivered */
+    finish: () => Promise<void>
+    /** Close immediately, dropping pending transcripts */
+    abort: () => void
+}
+
+/**
+ * Realtime speech-to-text service fed with audio while the user speaks,
+ * e.g. over a WebSocket
+ */
+export interface StreamingTranscriber {
+    /** Audio the transcriber consumes (default: 'encoded') */
+    input?: AudioChunk['kind']
+    /** Open a session before recording starts */
+    start: (options: StreamingTranscriberStartOptions) => StreamingTranscriberSession | Promise<StreamingTranscriberSession>
+}
+
+/**
+ * Options for createWebSocketTranscriber
+ */
+export interface WebSocketTranscriberOptions {
+    /** WebSocket URL, or a function resolving it (e.g. to fetch a short-lived token) */
+    url: string | (() => string | Promise<string>)
+    /** WebSocket subprotocols */
+    protocols?: string | string[]
+    /** 
+     * Audio to stream: MediaRecorder chunks as-is ('encoded', default),
+     * or 16-bit little-endian PCM frames ('pcm')
+     */
+    input?: AudioChunk['kind']
+    /** Sample rate PCM frames are resampled to (default: 16000) */
+    sampleRate?: number
+    /** Message sent after the socket opens, e.g. session configuration */
+    startMessage?: string
+    /** 
+     * Message sent after the last chunk, e.g. '{"type":"CloseStream"}'.
+     * Without it, the socket is closed once the audio is sent.
+     */
+    endMessage?: string
+    /** 
+     * Parse a server message into transcripts.
+     * Defaults to common JSON shapes ({ text | transcript, is_final | isFinal | type }).
+     */
+    parseMessage?: (data: unknown) => RecognitionResult | null
+    /** Time to wait for the server to close after endMessage, in ms (default: 5000) */
+    finishTimeoutMs?: number
+    /** WebSocket implementation (default: global WebSocket) */
+    WebSocket?: WebSocketConstructor
+}
+
+/**
+ * Minimal WebSocket constructor shape used by createWebSocketTranscriber
+ */
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocket
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+/**
+ * Incrementally delivered response from a transport function.
+ * Byte chunks (e.g. from a fetch Response body) are decoded to text.
+ */
+export type StreamingResponse =
+    | AsyncIterable<unknown>
+    | ReadableStream<unknown>
+    | Response
+
+/**
+ * Context passed to transport functions alongside the input
+ */
+export interface SendContext {
+    /** Aborted when the request is cancelled, superseded, or the component unmounts */
+    signal: AbortSignal
+    /** Current attempt (1-based), greater than 1 for automatic retries */
+    attempt: number
+    /** Files attached to the input (also in `payload.attachments` in structured mode) */
+    attachments: AiInputAttachment[]
+    /** Entities mentioned in the text (also in `payload.references` in structured mode) */
+    references: AiInputReference[]
+}
+
+/**
+ * Transport function for sending input to AI API.
+ * Must be provided by the host application.
+ * 
+ * @param input - Text string or audio Blob to send (AiInputPayload in structured mode)
+ * @param context - Request context with an AbortSignal
+ * @returns Promise resolving to the API response, or a streaming response
+ */
+export type SendFunction<TInput = string | Blob> = (
+    input: TInput,
+    context: SendContext
+) => Promise<unknown> | StreamingResponse
+
+/**
+ * How input is passed to transport functions
+ * - 'legacy': bare text string or audio Blob (default)
+ * - 'structured': AiInputPayload with kind, audio details and metadata
+ */
+export type PayloadMode = 'legacy' | 'structured'
+
+/**
+ * Transport functions, typed by payload mode
+ */
+export type AiInputTransport =
+    | {
+        /** Pass bare text strings and audio Blobs to transport functions */
+        payloadMode?: 'legacy'
+        /** 
+         * Transport function for sending input to AI API.
+         * Must be provided by the host application.
+         */
+        send: SendFunction
+        /** 
+         * Transport function specifically for audio (optional).
+         * If provided, audio will be sent via this function.
+         * If not provided, audio will be sent via `send`.
+         */
+        sendAudio?: SendFunction
+    }
+    | {
+        /** Pass structured AiInputPayload objects to transport functions */
+        payloadMode: 'structured'
+        /** Transport function receiving structured payloads */
+        send: SendFunction<AiInputPayload>
+        /** Transport function for audio payloads (optional, falls back to `send`) */
+        sendAudio?: SendFunction<AiInputPayload>
+    }
+
+/**
+ * Inline completion transport.
+ * 
+ * @param text - Text typed so far
+ * @param context - Request context with an AbortSignal, aborted when the text changes
+ * @returns Text to suggest after the typed text, or nothing for no suggestion
+ */
+export type CompleteFunction = (
+    text: string,
+    context: { signal: AbortSignal }
+) => string | null | undefined | Promise<string | null | undefined>
+
+// =============================================================================
+// PAYLOAD
+// =============================================================================
+
+/**
+ * File attached to a payload
+ */
+export interface AiInputAttachment {
+    /** Unique attachment id */
+    id: string
+    /** File name */
+    name: string
+    /** MIME type of the file */
+    mimeType: string
+    /** Size in bytes */
+    size: number
+    /** File contents */
+    data: Blob
+    /** Object URL for image previews, only set while the attachment is pending */
+    previewUrl?: string
+}
+
+/**
+ * Recorded audio with details from the recorder
+ */
+export interface AiInputAudio {
+    /** Recorded audio */
+    blob: Blob
+    /** MIME type the audio was recorded in */
+    mimeType: string
+    /** Recording duration in milliseconds */
+    durationMs: number
+}
+
+/**
+ * Fields shared by all payload kinds
+ */
+interface AiInputPayloadBase {
+    /** Files attached to the input */
+    attachments: AiInputAttachment[]
+    /** User locale (BCP 47), when known */
+    locale?: string
+    /** Free-form metadata from the host application */
+    metadata: Record<string, unknown>
+}
+
+/**
+ * Text prompt payload
+ */
+export interface AiInputTextPayload extends AiInputPayloadBase {
+    kind: 'text'
+    text: string
+    /** Entities mentioned in the text (when any) */
+    references?: AiInputReference[]
+}
+
+/**
+ * Recorded audio payload
+ */
+export interface AiInputAudioPayload extends AiInputPayloadBase {
+    kind: 'audio'
+    audio: AiInputAudio
+}
+
+/**
+ * Payload combining text with attachments or audio
+ */
+export interface AiInputMixedPayload extends AiInputPayloadBase {
+    kind: 'mixed'
+    text: string
+    audio?: AiInputAudio
+    /** Entities mentioned in the text (when any) */
+    references?: AiInputReference[]
+}
+
+/**
+ * Structured input passed to transport functions in 'structured' payload mode
+ */
+export type AiInputPayload =
+    | AiInputTextPayload
+    | AiInputAudioPayload
+    | AiInputMixedPayload
+
+// =============================================================================
+// SLASH COMMANDS
+// =============================================================================
+
+/**
+ * Argument of a slash command. Arguments are the words typed after the
+ * command name, in order; the rest of the input is the command's text.
+ */
+export interface SlashCommandArgument {
+    /** Argument name, shown in suggestions and errors */
+    name: string
+    /** What the argument is for */
+    description?: string
+    /** 
+     * Whether the command fails without it 
+     * @default false
+     */
+    required?: boolean
+    /** Accepted values (optional); other values fail the command */
+    options?: string[]
 }
 
 /**
- * Audio recording configuration
+ * Context passed to a slash command handler
  */
-export interface AudioConfig {
-    /** Maximum recording duration in milliseconds */
-    maxDurationMs: number
+export interface SlashCommandContext {
+    /** Arguments by name; missing optional arguments are absent */
+    args: Record<string, string>
+    /** Text after the command name and its arguments */
+    text: string
+    /** Payload that would be sent for `text`, with the current attachments */
+    payload: AiInputTextPayload | AiInputMixedPayload
+    /** Replace the text in the input */
+    setText: (value: string) => void
+    /** Reset the input to idle */
+    reset: () => void
+}
+
+/**
+ * Slash command typed as `/name args... text`
+ * 
+ * @example
+ * const translate: SlashCommand = {
+ *     name: 'translate',
+ *     description: 'Translate the prompt',
+ *     args: [{ name: 'language', required: true }],
+ *     handler: ({ args, text }) => `Translate to ${args.language}:\n${text}`,
+ * }
+ */
+export interface SlashCommand {
+    /** Name typed after the slash */
+    name: string
+    /** Shown in the suggestions */
+    description?: string
+    /** Positional arguments */
+    args?: SlashCommandArgument[]
     /** 
-     * Allowed MIME types for recording 
-     * @example ['audio/webm', 'audio/mp4', 'audio/ogg']
+     * Run the command. Return a payload, or a string to send in place of the
+     * text, to send it; return nothing when the command was handled locally.
+     * A thrown error puts the input in the 'error' state.
      */
-    mimeTypes: string[]
+    handler: (context: SlashCommandContext) => SlashCommandResult | Promise<SlashCommandResult>
 }
 
+/**
+ * What a slash command handler returns: something to send, or nothing
+ */
+export type SlashCommandResult = AiInputPayload | string | void
+
 // =============================================================================
-// TRANSPORT
+// MENTIONS
 // =============================================================================
 
 /**
- * Transport function for sending input to AI API.
- * Must be provided by the host application.
+ * Entity offered by a mention provider
+ */
+export interface MentionItem {
+    /** Identifier of the entity, unique within its provider */
+    id: string
+    /** Name shown in suggestions and inserted after the trigger */
+    label: string
+    /** Secondary text shown in suggestions */
+    description?: string
+    /** Extra data passed on to the payload reference */
+    data?: Record<string, unknown>
+}
+
+/**
+ * Source of entities referenced with a trigger character
+ * 
+ * @example
+ * const documents: MentionProvider = {
+ *     trigger: '@',
+ *     type: 'document',
+ *     search: (query, { signal }) =>
+ *         fetch(`/api/documents?q=${encodeURIComponent(query)}`, { signal }).then((res) => res.json()),
+ * }
+ */
+export interface MentionProvider {
+    /** Character that starts a mention, e.g. '@' or '#' */
+    trigger: string
+    /** Reference type in the payload, e.g. 'document' (default: the trigger) */
+    type?: string
+    /** Find entities for the text typed after the trigger; the signal aborts when the query changes */
+    search: (query: string, context: { signal: AbortSignal }) => MentionItem[] | Promise<MentionItem[]>
+    /** 
+     * Time after the last keystroke before searching, in milliseconds 
+     * @default 200
+     */
+    debounceMs?: number
+    /** 
+     * Characters typed after the trigger before searching 
+     * @default 0
+     */
+    minQueryLength?: number
+}
+
+/**
+ * Entity referenced in a prompt, sent with text payloads
+ */
+export interface AiInputReference {
+    /** Provider type */
+    type: string
+    /** Trigger the entity was mentioned with */
+    trigger: string
+    /** Entity identifier */
+    id: string
+    /** Entity name, as it appears in the text after the trigger */
+    label: string
+    /** Extra data from the provider */
+    data?: Record<string, unknown>
+}
+
+/**
+ * Mention being typed at the caret
+ */
+export interface MentionQuery {
+    /** Trigger character */
+    trigger: string
+    /** Text typed after the trigger */
+    query: string
+    /** Position of the trigger in the text */
+    start: number
+    /** Position where the typed query ends (the caret) */
+    end: number
+}
+
+// =============================================================================
+// STREAM PARSING
+// =============================================================================
+
+/**
+ * A single Server-Sent Event
+ */
+export interface ServerSentEvent {
+    /** Event type, 'message' when not specified */
+    event: string
+    /** Event data, multiple data lines joined with '\n' */
+    data: string
+    /** Last event id, if any */
+    id?: string
+}
+
+/**
+ * Options for parseSSE
+ */
+export interface SSEParseOptions {
+    /** 
+     * Data value that ends the stream, null to disable
+     * @default '[DONE]'
+     */
+    doneSentinel?: string | null
+}
+
+/**
+ * Wire format of a streaming response
+ * - 'sse': text/event-stream
+ * - 'ndjson': newline-delimited JSON
+ */
+export type StreamFormat = 'sse' | 'ndjson'
+
+/**
+ * Extract the text delta from a parsed stream event.
+ * Return null or an empty string to skip the event.
  * 
- * @param input - Text string or audio Blob to send
- * @returns Promise resolving to the API response
+ * @param data - Event data, parsed as JSON when possible
+ * @param event - The raw event (SSE only)
+ */
+export type DeltaExtractor = (data: unknown, event?: ServerSentEvent) => string | null | undefined
+
+/**
+ * Options for streamText
+ */
+export interface StreamTextOptions extends SSEParseOptions {
+    /** Wire format, detected from the Response content type when omitted */
+    format?: StreamFormat
+    /** Delta extractor, defaults to extractTextDelta */
+    extractDelta?: DeltaExtractor
+}
+
+// =============================================================================
+// PROVIDER TRANSPORTS
+// =============================================================================
+
+/**
+ * Options shared by the built-in provider transports
+ */
+export interface ProviderTransportOptions {
+    /** Model name */
+    model: string
+    /** 
+     * API base URL (optional).
+     * Point this at a backend proxy or a local server.
+     */
+    baseUrl?: string
+    /** Extra headers sent with every request */
+    headers?: Record<string, string>
+    /** 
+     * Token getter, called before every request (optional).
+     * Use short-lived tokens from your backend - never ship API keys.
+     */
+    getToken?: () => string | null | undefined | Promise<string | null | undefined>
+    /** System prompt sent before the user input */
+    systemPrompt?: string
+    /** Stream text deltas instead of waiting for the full response */
+    stream?: boolean
+    /** Custom fetch implementation (optional) */
+    fetch?: typeof fetch
+}
+
+/**
+ * Options for the OpenAI-compatible transport
+ */
+export interface OpenAITransportOptions extends ProviderTransportOptions {
+    /** Model used for audio transcription */
+    transcriptionModel?: string
+    /** Maximum number of tokens to generate */
+    maxTokens?: number
+}
+
+/**
+ * Options for the Anthropic Messages transport
+ */
+export interface AnthropicTransportOptions extends ProviderTransportOptions {
+    /** Maximum number of tokens to generate */
+    maxTokens?: number
+    /** Value of the anthropic-version header */
+    apiVersion?: string
+}
+
+/**
+ * Options for the Ollama transport
+ */
+export interface OllamaTransportOptions extends ProviderTransportOptions {
+    /** Model parameters such as temperature */
+    modelOptions?: Record<string, unknown>
+}
+
+/**
+ * Normalized result of a non-streaming provider request
+ */
+export interface TransportResult {
+    /** Generated or transcribed text */
+    text: string
+    /** Why generation stopped, as reported by the provider */
+    finishReason?: string
+    /** Token usage, when reported */
+    usage?: {
+        inputTokens: number
+        outputTokens: number
+    }
+    /** Raw provider response */
+    raw: unknown
+}
+
+/**
+ * Transport functions returned by the provider transport factories.
+ * Spread into AiInput props: `<AiInput {...createOpenAITransport(options)} />`
  */
-export type SendFunction = (input: string | Blob) => Promise<unknown>
+export interface ProviderTransport {
+    send: SendFunction
+    sendAudio?: SendFunction
+}
 
 // =============================================================================
 // RENDER PROPS
@@ -74,6 +1088,10 @@ export interface AiInputRenderProps {
     error: Error | null
     /** Result from last successful request */
     result: unknown
+    /** Value assembled from the chunks received so far while streaming */
+    partialResult: unknown
+    /** Chunks received so far while streaming */
+    chunks: unknown[]
 
     // Text input
     /** Current text value (controlled) */
@@ -92,23 +1110,172 @@ export interface AiInputRenderProps {
     startRecording: () => Promise<void>
     /** Stop audio recording and send */
     stopRecording: () => void
+    /** Whether the recording is paused */
+    isPaused: boolean
+    /** Whether the current recording can be paused (not available for live speech recognition) */
+    canPauseRecording: boolean
+    /** Pause audio recording, keeping what was recorded so far */
+    pauseRecording: () => void
+    /** Resume a paused recording */
+    resumeRecording: () => void
     /** Cancel audio recording (discard) */
     cancelRecording: () => void
-    /** Current recording duration in milliseconds */
+
+    // Microphone access
+    /** Microphone permission, kept current where the Permissions API allows */
+    micPermission: MicPermission
+    /** Ask for microphone access ahead of recording; resolves with the resulting state */
+    requestMicPermission: () => Promise<MicPermission>
+
+    // Microphone selection
+    /** Available microphones, refreshed when devices change */
+    devices: MediaDeviceInfo[]
+    /** Chosen microphone, or null for the default device */
+    selectedDeviceId: string | null
+    /** Choose a microphone (null for the default); remembered across visits */
+    selectDevice: (deviceId: string | null) => void
+
+    // Recording review
+    /** Recording held for review ('review' state, `confirmBeforeSend`) */
+    recordedAudio: Blob | null
+    /** Object URL of the recording under review */
+    recordedAudioUrl: string | null
+    /** Length of the recording under review in milliseconds, 0 without one */
+    recordedAudioDuration: number
+    /** Static waveform of the whole recording (0-1 normalized) */
+    recordedWaveform: number[]
+    /** Whether the recording under review is playing */
+    isPlayingRecording: boolean
+    /** Playback position in milliseconds */
+    playbackPosition: number
+    /** Play the recording under review */
+    playRecording: () => void
+    /** Pause playback */
+    pausePlayback: () => void
+    /** Jump to a playback position in milliseconds */
+    seekPlayback: (positionMs: number) => void
+    /** Send the recording under review */
+    sendRecording: () => void
+    /** Discard the recording under review */
+    discardRecording: () => void
+    /** Current recording duration in milliseconds (in 'review', the recording under review) */
     recordingDuration: number
     /** Maximum recording duration in milliseconds */
     maxRecordingDuration: number
-    /** Audio levels for waveform visualization (0-1 normalized, 12 bars) */
+    /** 
+     * Audio levels for waveform visualization (0-1 normalized, `waveform.bars` bars, 16 by default).
+     * Updated every 100ms; use audioLevelsSource for per-frame updates.
+     */
     audioLevels: number[]
+    /** Per-frame audio levels, e.g. for the canvas Waveform component */
+    audioLevelsSource: AudioLevelsSource
+    /** Whether the input level is currently above the silence threshold */
+    isSpeaking: boolean
+    /** Time since speech was last detected while recording, in milliseconds */
+    silenceMs: number
+    /** Not-yet-final text from live speech recognition */
+    interimTranscript: string
+
+    // Transcription
+    /** Whether a transcript is waiting for review ('review' transcription mode) */
+    reviewingTranscription: boolean
+    /** Send the reviewed (possibly edited) transcript */
+    confirmTranscription: () => void
+    /** Discard the reviewed transcript */
+    discardTranscription: () => void
+
+    // Attachments
+    /** Files attached to the current input */
+    attachments: AiInputAttachment[]
+    /** Validate and attach files */
+    addFiles: (files: FileList | File[]) => void
+    /** Remove an attached file */
+    removeAttachment: (id: string) => void
+    /** Attachment configuration, null when attachments are disabled */
+    attachmentConfig: AttachmentConfig | null
 
     // Rate limiting
-    /** Remaining cooldown time in milliseconds */
+    /** Remaining cooldown time in milliseconds, including waits imposed by the server */
     cooldownRemaining: number
-    /** Remaining requests in current window */
+    /** Budget left in the current window for text (the server's count when lower) */
     requestsRemaining: number
+    /** Text can be sent now (budget, state and content) */
+    canSubmitText: boolean
+    /** Recording can start now (budget and state) */
+    canSubmitAudio: boolean
+    /** Budget left for text requests */
+    textRequestsRemaining: number
+    /** Budget left for audio requests */
+    audioRequestsRemaining: number
+
+    // Request
+    /** Abort the in-flight request; the state becomes 'cancelled' */
+    cancelRequest: () => void
+    /** Last payload that was sent */
+    lastPayload: AiInputPayload | null
+    /** 
+     * Resend the last payload.
+     * Pass a string to send an edited text prompt instead.
+     */
+    retry: (input?: string) => void
+
+    // History
+    /** Sent prompts, oldest first (empty without the `history` option) */
+    history: string[]
+    /** Entry shown in the input, or null while editing a new prompt */
+    historyIndex: number | null
+    /**
+     * Show an older ('previous') or newer ('next') entry, or the entry at an index.
+     * The prompt being written is kept and comes back after the newest entry.
+     */
+    recallHistory: (target: 'previous' | 'next' | number) => void
+    /**
+     * Index of the newest entry containing the query (case-insensitive), or null.
+     * Pass `before` to continue the search with older entries.
+     */
+    searchHistory: (query: string, before?: number) => number | null
+    /** Forget all entries */
+    clearHistory: () => void
+
+    // Slash commands
+    /** Command typed in the input, once its full name is typed */
+    activeCommand: SlashCommand | null
+    /** Commands matching the partly typed name, best first (empty when not typing a name) */
+    commandSuggestions: SlashCommand[]
+    /** Complete the typed name to a command */
+    selectCommand: (command: SlashCommand) => void
+
+    // Mentions
+    /** Mention being typed at the caret, or null */
+    mentionQuery: MentionQuery | null
+    /** Entities found for the mention being typed */
+    mentionSuggestions: MentionItem[]
+    /** Whether a mention search is pending */
+    isSearchingMentions: boolean
+    /** 
+     * Replace the mention being typed with the entity.
+     * Returns the caret position after the inserted mention, or null when nothing is being typed.
+     */
+    selectMention: (item: MentionItem) => number | null
+    /** Entities mentioned in the text, sent as the payload's `references` */
+    references: AiInputReference[]
+    /** Remove a mention from the text */
+    removeReference: (reference: AiInputReference) => void
+    /** Report the caret position, where mentions and completions apply (default: end of the text) */
+    setCaretPosition: (position: number) => void
+
+    // Inline completion
+    /** Suggested continuation of the text, shown after the caret ('' when none) */
+    completion: string
+    /** Whether a completion request is pending */
+    isCompleting: boolean
+    /** Append the suggested continuation to the text */
+    acceptCompletion: () => void
+    /** Hide the suggestion until the text changes */
+    dismissCompletion: () => void
 
     // Utils
-    /** Reset component to idle state */
+    /** Reset component to idle state (a rate limit budget shared by `key` is kept) */
     reset: () => void
 }
 
@@ -117,29 +1284,37 @@ export interface AiInputRenderProps {
 // =============================================================================
 
 /**
- * Props for the AiInput component
+ * AiInput props shared by all payload modes
  */
-export interface AiInputProps {
+export interface AiInputBaseProps {
+    /** Rate limiting configuration (optional) */
+    rateLimit?: Partial<RateLimitConfig>
+
+    /** Audio configuration (optional) */
+    audioConfig?: Partial<AudioConfig>
+
     /** 
-     * Transport function for sending input to AI API.
-     * Must be provided by the host application.
+     * File attachment configuration (optional).
+     * Attachments are enabled when provided.
      */
-    send: SendFunction
+    attachmentConfig?: Partial<AttachmentConfig>
 
     /** 
-     * Transport function specifically for audio (optional).
-     * If provided, audio will be sent via this function.
-     * If not provided, audio will be sent via `send`.
+     * Automatic retry configuration (optional).
+     * Without it, failed requests are not retried.
      */
-    sendAudio?: SendFunction
+    retry?: Partial<RetryConfig>
 
-    /** Rate limiting configuration (optional) */
-    rateLimit?: Partial<RateLimitConfig>
+    /** 
+     * Extract text deltas from event-stream and NDJSON Responses (optional).
+     * Defaults to extractTextDelta, which understands common provider formats.
+     */
+    extractDelta?: DeltaExtractor
 
-    /** Audio configuration (optional) */
-    audioConfig?: Partial<AudioConfig>
+    /** Free-form metadata included in structured payloads (optional) */
+    metadata?: Record<string, unknown>
 
-    /** Callback when request succeeds */
+    /** Callback when request succeeds (with the final assembled value when streaming) */
     onSuccess?: (result: unknown) => void
 
     /** Callback when request fails */
@@ -151,6 +1326,63 @@ export interface AiInputProps {
      */
     onTranscription?: (text: string) => void
 
+    /** 
+     * Extract the transcript from an audio response (optional).
+     * Defaults to extractTranscriptionText, which understands common formats.
+     */
+    extractTranscription?: (response: unknown) => string | null | undefined
+
+    /** What to do with the transcript (default: 'insert') */
+    transcriptionMode?: TranscriptionMode
+
+    /** 
+     * Live in-browser speech recognition (optional).
+     * Transcripts stream into the text while the user speaks.
+     */
+    speechRecognition?: Partial<SpeechRecognitionConfig>
+
+    /** 
+     * Save the input as a draft and restore it on mount (optional).
+     * The draft is cleared after a successful send.
+     */
+    persistDraft?: DraftConfig
+
+    /**
+     * Prompt history (optional). Sent prompts are recorded when provided;
+     * ArrowUp/ArrowDown recall them and Ctrl+R searches them.
+     */
+    history?: Partial<HistoryConfig>
+
+    /** 
+     * Slash commands (optional). Input starting with `/name` runs the
+     * command's handler instead of being sent as typed.
+     */
+    commands?: SlashCommand[]
+
+    /** 
+     * Mention providers (optional). Typing a provider's trigger searches it;
+     * chosen entities are sent as the payload's `references`.
+     */
+    mentions?: MentionProvider[]
+
+    /** 
+     * Inline completion transport (optional). Called after a pause in typing
+     * with the text so far; its suggestion is shown after the caret.
+     */
+    complete?: CompleteFunction
+
+    /** Inline completion settings (optional) */
+    completion?: Partial<CompletionConfig>
+
+    /** 
+     * Realtime speech-to-text service fed while recording (optional).
+     * Partial and final transcripts stream into the text; the recording is not uploaded.
+     */
+    streamingTranscriber?: StreamingTranscriber
+
+    /** Called with each encoded audio chunk (about every 100ms) while recording */
+    onAudioChunk?: (chunk: Blob) => void
+
     // Headless API
     /** 
      * Render function for headless usage.
@@ -169,6 +1401,33 @@ export interface AiInputProps {
     disabled?: boolean
 }
 
+/**
+ * Props for the AiInput component
+ */
+export type AiInputProps = AiInputTransport & AiInputBaseProps
+
+/**
+ * Waveform component props
+ */
+export interface WaveformProps {
+    /** Levels read every animation frame without re-rendering (e.g. audioLevelsSource) */
+    source?: AudioLevelsSource
+    /** Static levels (0-1), used when no source is given */
+    levels?: number[]
+    /** Bars shown while there are no levels (default: 16) */
+    bars?: number
+    /** Canvas height in pixels (default: 40) */
+    height?: number
+    /** Bar width in pixels (default: 6) */
+    barWidth?: number
+    /** Space between bars in pixels (default: 4) */
+    gap?: number
+    /** Bar colors from bottom to top (default: amber gradient) */
+    colors?: [string, string]
+    /** Additional class name for the canvas */
+    className?: string
+}
+
 // =============================================================================
 // HOOK TYPES
 // =============================================================================
@@ -180,6 +1439,10 @@ export interface UseRateLimiterOptions {
     cooldownMs: number
     maxRequests: number
     windowMs: number
+    strategy?: RateLimitStrategy
+    key?: string
+    storage?: 'memory' | 'local' | RateLimitStorage
+    crossTab?: boolean
 }
 
 /**
@@ -189,7 +1452,12 @@ export interface UseRateLimiterReturn {
     canRequest: boolean
     cooldownRemaining: number
     requestsRemaining: number
-    recordRequest: () => void
+    /** Time until a request is allowed, read from the limiter now rather than at the last render */
+    getWaitTime: () => number
+    /** Budget left, read from the limiter now rather than at the last render */
+    getRequestsRemaining: () => number
+    recordRequest: (cost?: number) => void
+    applyServerLimit: (limit: ServerRateLimit) => void
     reset: () => void
 }
 
@@ -199,7 +1467,26 @@ export interface UseRateLimiterReturn {
 export interface UseAudioRecorderOptions {
     maxDurationMs: number
     mimeTypes: string[]
+    silenceThreshold: number
+    silenceDurationMs: number
+    minSpeechDurationMs: number
+    autoStopOnSilence: boolean
+    discardWithoutSpeech?: boolean
+    outputFormat: AudioOutputFormat
+    outputSampleRate: number
+    normalize: boolean
+    deviceId?: string
+    echoCancellation?: boolean
+    noiseSuppression?: boolean
+    autoGainControl?: boolean
+    sampleRate?: number
+    channelCount?: number
+    waveform?: Partial<WaveformConfig>
     onRecordingComplete?: (blob: Blob) => void
+    /** Called with each MediaRecorder chunk while recording */
+    onAudioChunk?: (chunk: Blob) => void
+    /** Called with mono PCM frames from an AudioWorklet while recording; enables the worklet */
+    onPcmFrame?: (samples: Float32Array, sampleRate: number) => void
 }
 
 /**
@@ -207,30 +1494,270 @@ export interface UseAudioRecorderOptions {
  */
 export interface UseAudioRecorderReturn {
     isRecording: boolean
+    isPaused: boolean
     isSupported: boolean
     duration: number
     audioBlob: Blob | null
     audioLevels: number[]
+    audioLevelsSource: AudioLevelsSource
+    isSpeaking: boolean
+    silenceMs: number
     error: Error | null
     startRecording: () => Promise<void>
     stopRecording: () => void
+    pauseRecording: () => void
+    resumeRecording: () => void
     cancelRecording: () => void
     reset: () => void
 }
 
 /**
- * Options for useAiInput hook
+ * Options for useSpeechRecognition hook
  */
-export interface UseAiInputOptions {
-    send: SendFunction
-    sendAudio?: SendFunction
+export interface UseSpeechRecognitionOptions extends Partial<SpeechRecognitionConfig> {
+    /** Called for each final transcript segment */
+    onFinalTranscript?: (text: string) => void
+    /** Called when the session ends, with the full final transcript */
+    onEnd?: (transcript: string) => void
+}
+
+/**
+ * Options for useAudioDevices hook
+ */
+export interface UseAudioDevicesOptions {
+    /** 
+     * Configured device. Selected instead of the remembered one, and again
+     * whenever it changes; the user can still choose another in between.
+     */
+    deviceId?: string
+    /** localStorage key remembering the chosen device, or false to not remember (default: 'ai-input-audio-device') */
+    storageKey?: string | false
+}
+
+/**
+ * Return type for useAudioDevices hook
+ */
+export interface UseAudioDevicesReturn {
+    isSupported: boolean
+    /** Audio input devices. Labels are empty until microphone access is granted. */
+    devices: MediaDeviceInfo[]
+    /** Chosen device, or null for the default device */
+    selectedDeviceId: string | null
+    selectDevice: (deviceId: string | null) => void
+    /** Enumerate devices again, e.g. after access was granted */
+    refresh: () => Promise<void>
+}
+
+/**
+ * Draft content handled by useDraft
+ */
+export interface DraftContent {
+    text: string
+    attachments: AiInputAttachment[]
+    recording: DraftRecording | null
+}
+
+/**
+ * Options for useDraft hook
+ */
+export interface UseDraftOptions {
+    /** Autosave configuration; nothing is saved without it */
+    config?: DraftConfig
+    /** Current content */
+    content: DraftContent
+    /** 
+     * Apply a restored draft, or an empty one when it was cleared in another tab.
+     * Fields the storage can't keep are undefined and should be left as they are.
+     */
+    onRestore: (content: Pick<DraftContent, 'text'> & Partial<DraftContent>) => void
+}
+
+/**
+ * Return type for useDraft hook
+ */
+export interface UseDraftReturn {
+    /** Remove the saved draft, e.g. after it was sent */
+    clear: () => void
+    /** Save pending edits now */
+    flush: () => void
+}
+
+/**
+ * Options for usePromptHistory hook; history is kept only when `config` is given
+ */
+export interface UsePromptHistoryOptions {
+    config?: Partial<HistoryConfig>
+}
+
+/**
+ * Return type for usePromptHistory hook
+ */
+export interface UsePromptHistoryReturn {
+    /** Entries, oldest first */
+    entries: string[]
+    /** Entry being shown, or null while editing a new prompt */
+    index: number | null
+    /** Record a sent prompt and stop navigating */
+    add: (text: string) => void
+    /**
+     * Move to another entry. `current` is the text in the input, kept when
+     * navigation starts. Returns the text to show, or null when nothing changed.
+     */
+    navigate: (target: 'previous' | 'next' | number, current: string) => string | null
+    /** Index of the newest entry before `before` containing the query, or null */
+    search: (query: string, before?: number) => number | null
+    /** Stop navigating; the next recall starts from the newest entry */
+    resetNavigation: () => void
+    /** Forget all entries */
+    clear: () => void
+}
+
+/**
+ * Options for useMentions hook
+ */
+export interface UseMentionsOptions {
+    /** Mention providers; nothing is searched without them */
+    providers?: MentionProvider[]
+    /** Current text */
+    text: string
+    /** Replace the text, used when a mention is inserted or removed */
+    setText: (value: string) => void
+    /** Caret position; mentions are looked for before it (default: end of the text) */
+    caret?: number | null
+    /** Move the caret, used to place it after an inserted mention */
+    setCaret?: (position: number | null) => void
+}
+
+/**
+ * Return type for useMentions hook
+ */
+export interface UseMentionsReturn {
+    query: MentionQuery | null
+    suggestions: MentionItem[]
+    isSearching: boolean
+    /** Returns the caret position after the inserted mention, or null when nothing was inserted */
+    select: (item: MentionItem) => number | null
+    /** Mentions still present in the text */
+    references: AiInputReference[]
+    remove: (reference: AiInputReference) => void
+    /** Forget chosen mentions, e.g. after the text was sent */
+    clear: () => void
+}
+
+/**
+ * Options for useCompletion hook
+ */
+export interface UseCompletionOptions {
+    /** Completion transport; nothing is requested without it */
+    complete?: CompleteFunction
+    config?: Partial<CompletionConfig>
+    /** Current text */
+    text: string
+    /** Replace the text, used when a suggestion is accepted */
+    setText: (value: string) => void
+    /** Caret position; completions are requested only at the end of the text (default: end) */
+    caret?: number | null
+    /** Whether completions may be requested now (default: true) */
+    enabled?: boolean
+}
+
+/**
+ * Return type for useCompletion hook
+ */
+export interface UseCompletionReturn {
+    /** Suggested continuation ('' when none) */
+    suggestion: string
+    isCompleting: boolean
+    accept: () => void
+    dismiss: () => void
+    /** Completion requests left in the budget */
+    requestsRemaining: number
+}
+
+/**
+ * Return type for useMicPermission hook
+ */
+export interface UseMicPermissionReturn {
+    permission: MicPermission
+    /** Ask for microphone access; resolves with the resulting state */
+    requestPermission: () => Promise<MicPermission>
+    /** Record a state observed elsewhere (e.g. a recording was denied), where the Permissions API can't report it */
+    reportPermission: (permission: MicPermission) => void
+}
+
+/**
+ * Options for useAudioPlayback hook
+ */
+export interface UseAudioPlaybackOptions {
+    /** Number of bars in the static waveform (default: 40) */
+    waveformBars?: number
+}
+
+/**
+ * Return type for useAudioPlayback hook
+ */
+export interface UseAudioPlaybackReturn {
+    /** Object URL of the blob, revoked when the blob changes */
+    url: string | null
+    isPlaying: boolean
+    /** Playback position in milliseconds */
+    position: number
+    /** Static waveform of the whole recording (0-1 normalized) */
+    waveform: number[]
+    play: () => void
+    pause: () => void
+    seek: (positionMs: number) => void
+}
+
+/**
+ * Return type for useSpeechRecognition hook
+ */
+export interface UseSpeechRecognitionReturn {
+    isListening: boolean
+    isSupported: boolean
+    /** Final text recognized in the current session */
+    transcript: string
+    /** Not-yet-final text */
+    interimTranscript: string
+    duration: number
+    error: Error | null
+    start: () => void
+    stop: () => void
+    abort: () => void
+    reset: () => void
+}
+
+/**
+ * useAiInput options shared by all payload modes
+ */
+export interface UseAiInputBaseOptions {
     rateLimit?: Partial<RateLimitConfig>
     audioConfig?: Partial<AudioConfig>
+    attachmentConfig?: Partial<AttachmentConfig>
+    retry?: Partial<RetryConfig>
+    extractDelta?: DeltaExtractor
+    metadata?: Record<string, unknown>
     onSuccess?: (result: unknown) => void
     onError?: (error: Error) => void
     onTranscription?: (text: string) => void
+    extractTranscription?: (response: unknown) => string | null | undefined
+    transcriptionMode?: TranscriptionMode
+    speechRecognition?: Partial<SpeechRecognitionConfig>
+    streamingTranscriber?: StreamingTranscriber
+    onAudioChunk?: (chunk: Blob) => void
+    persistDraft?: DraftConfig
+    history?: Partial<HistoryConfig>
+    commands?: SlashCommand[]
+    mentions?: MentionProvider[]
+    complete?: CompleteFunction
+    completion?: Partial<CompletionConfig>
 }
 
+/**
+ * Options for useAiInput hook
+ */
+export type UseAiInputOptions = AiInputTransport & UseAiInputBaseOptions
+
 /**
  * Return type for useAiInput hook
  */
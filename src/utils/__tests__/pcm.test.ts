@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { floatToPcm16, resampleLinear } from '../pcm'
+
+describe('resampleLinear', () => {
+    it('scales the length by the rate ratio', () => {
+        expect(resampleLinear(new Float32Array(48000), 48000, 16000)).toHaveLength(16000)
+        expect(resampleLinear(new Float32Array(441), 44100, 16000)).toHaveLength(160)
+        expect(resampleLinear(new Float32Array(100), 8000, 16000)).toHaveLength(200)
+        expect(resampleLinear(new Float32Array(1), 48000, 16000)).toHaveLength(1)
+    })
+
+    it('interpolates between neighbouring samples', () => {
+        const resampled = resampleLinear(new Float32Array([0, 1, 0]), 8000, 16000)
+
+        expect(Array.from(resampled)).toEqual([0, 0.5, 1, 0.5, 0, 0])
+    })
+
+    it('returns the input when the rates match or there are no samples', () => {
+        const samples = new Float32Array([0.1, 0.2])
+        const empty = new Float32Array(0)
+
+        expect(resampleLinear(samples, 16000, 16000)).toBe(samples)
+        expect(resampleLinear(empty, 48000, 16000)).toBe(empty)
+    })
+})
+
+describe('floatToPcm16', () => {
+    it('scales to the 16-bit range and clamps samples outside [-1, 1]', () => {
+        const pcm = floatToPcm16(new Float32Array([0, 0.5, -0.5, 1, -1, 1.5, -3]))
+
+        expect(Array.from(pcm)).toEqual([0, 16383, -16384, 32767, -32768, 32767, -32768])
+    })
+})
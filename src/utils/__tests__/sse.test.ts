@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { parseNDJSON, parseSSE } from '../sse'
+
+/**
+ * Build a byte stream that delivers each string as a separate chunk
+ */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    return new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+            controller.close()
+        },
+    })
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = []
+    for await (const value of source) values.push(value)
+    return values
+}
+
+describe('parseSSE', () => {
+    it('joins events split across chunks', async () => {
+        const events = await collect(parseSSE(streamOf([
+            'event: del',
+            'ta\nda',
+            'ta: {"text":"Hel',
+            'lo"}\n',
+            '\ndata: second\n\n',
+        ])))
+
+        expect(events).toEqual([
+            { event: 'delta', data: '{"text":"Hello"}', id: undefined },
+            { event: 'message', data: 'second', id: undefined },
+        ])
+    })
+
+    it('handles \\r\\n line endings, including a \\r\\n split between chunks', async () => {
+        const events = await collect(parseSSE(streamOf([
+            'id: 1\r\ndata: one\r',
+            '\n\r\n',
+            'data: two\r\n\r\n',
+        ])))
+
+        expect(events).toEqual([
+            { event: 'message', data: 'one', id: '1' },
+            { event: 'message', data: 'two', id: '1' },
+        ])
+    })
+
+    it('joins multi-line data fields with newlines and skips comments', async () => {
+        const events = await collect(parseSSE(streamOf([
+            ': heartbeat\n\n',
+            'data: first line\ndata:second line\ndata\n\n',
+        ])))
+
+        expect(events).toEqual([
+            { event: 'message', data: 'first line\nsecond line\n', id: undefined },
+        ])
+    })
+
+    it('stops at [DONE] and honors a custom sentinel', async () => {
+        const chunks = ['data: a\n\n', 'data: [DONE]\n\n', 'data: b\n\n', 'data: END\n\n', 'data: c\n\n']
+
+        const events = await collect(parseSSE(streamOf(chunks)))
+        const custom = await collect(parseSSE(streamOf(chunks), { doneSentinel: 'END' }))
+        const none = await collect(parseSSE(streamOf(chunks), { doneSentinel: null }))
+
+        expect(events.map(event => event.data)).toEqual(['a'])
+        expect(custom.map(event => event.data)).toEqual(['a', '[DONE]', 'b'])
+        expect(none.map(event => event.data)).toEqual(['a', '[DONE]', 'b', 'END', 'c'])
+    })
+
+    it('flushes a trailing event with no newline at the end', async () => {
+        const events = await collect(parseSSE(streamOf(['data: one\n\n', 'data: last'])))
+        const done = await collect(parseSSE(streamOf(['data: one\n\n', 'data: [DONE]'])))
+
+        expect(events.map(event => event.data)).toEqual(['one', 'last'])
+        expect(done.map(event => event.data)).toEqual(['one'])
+    })
+
+    it('reads a fetch Response body', async () => {
+        const response = new Response(streamOf(['data: hi\n\n']), {
+            headers: { 'content-type': 'text/event-stream' },
+        })
+
+        const events = await collect(parseSSE(response))
+
+        expect(events.map(event => event.data)).toEqual(['hi'])
+    })
+})
+
+describe('parseNDJSON', () => {
+    it('parses lines split across chunks and skips blank lines', async () => {
+        const values = await collect(parseNDJSON(streamOf([
+            '{"a":',
+            '1}\n\n{"b"',
+            ':2}\r\n',
+            '{"c":3}\r',
+            '\n',
+        ])))
+
+        expect(values).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }])
+    })
+
+    it('parses a trailing line with no newline at the end', async () => {
+        const values = await collect(parseNDJSON(streamOf(['{"a":1}\n{"done":true}'])))
+
+        expect(values).toEqual([{ a: 1 }, { done: true }])
+    })
+})
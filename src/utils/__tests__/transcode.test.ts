@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { downmixToMono, normalizePeak } from '../transcode'
+
+describe('downmixToMono', () => {
+    it('averages the channels', () => {
+        const mono = downmixToMono([
+            new Float32Array([1, 0.5, -1]),
+            new Float32Array([0, 0.5, 1]),
+        ])
+
+        expect(Array.from(mono)).toEqual([0.5, 0.5, 0])
+    })
+
+    it('returns a single channel as is', () => {
+        const channel = new Float32Array([0.25])
+
+        expect(downmixToMono([channel])).toBe(channel)
+    })
+})
+
+describe('normalizePeak', () => {
+    it('scales the loudest sample to the target peak', () => {
+        const normalized = normalizePeak(new Float32Array([0.25, -0.5]), 1)
+
+        expect(Array.from(normalized)).toEqual([0.5, -1])
+        expect(Math.max(...normalizePeak(new Float32Array([0.1, -0.2])).map(Math.abs))).toBeCloseTo(0.95)
+    })
+
+    it('returns silent input unchanged', () => {
+        const silence = new Float32Array(4)
+
+        expect(normalizePeak(silence)).toBe(silence)
+    })
+})
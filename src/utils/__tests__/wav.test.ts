@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { encodeWav } from '../wav'
+
+function readTag(view: DataView, offset: number): string {
+    return String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)))
+}
+
+describe('encodeWav', () => {
+    it('writes a RIFF/WAVE header describing 16-bit PCM', () => {
+        const left = new Float32Array(10)
+        const right = new Float32Array(10)
+
+        const view = new DataView(encodeWav([left, right], 16000))
+
+        expect(view.byteLength).toBe(44 + 10 * 2 * 2)
+        expect(readTag(view, 0)).toBe('RIFF')
+        expect(view.getUint32(4, true)).toBe(view.byteLength - 8)
+        expect(readTag(view, 8)).toBe('WAVE')
+        expect(readTag(view, 12)).toBe('fmt ')
+        expect(view.getUint32(16, true)).toBe(16)
+        expect(view.getUint16(20, true)).toBe(1)
+        expect(view.getUint16(22, true)).toBe(2)
+        expect(view.getUint32(24, true)).toBe(16000)
+        expect(view.getUint32(28, true)).toBe(16000 * 4)
+        expect(view.getUint16(32, true)).toBe(4)
+        expect(view.getUint16(34, true)).toBe(16)
+        expect(readTag(view, 36)).toBe('data')
+        expect(view.getUint32(40, true)).toBe(40)
+    })
+
+    it('interleaves channels and clamps samples outside [-1, 1]', () => {
+        const left = new Float32Array([0, 1, 2, -2])
+        const right = new Float32Array([0.5, -1, -1.5, 1.5])
+
+        const view = new DataView(encodeWav([left, right], 8000))
+        const samples = Array.from({ length: 8 }, (_, i) => view.getInt16(44 + i * 2, true))
+
+        expect(samples).toEqual([0, 16383, 32767, -32768, 32767, -32768, -32768, 32767])
+    })
+
+    it('requires at least one channel', () => {
+        expect(() => encodeWav([], 16000)).toThrow('At least one channel is required')
+    })
+})
@@ -0,0 +1,131 @@
+import type { AiInputAttachment, AttachmentConfig } from '../types'
+
+let attachmentCounter = 0
+
+/**
+ * Check a file against an accept list in the format of the
+ * `accept` attribute of file inputs (e.g. "image/*,.pdf")
+ */
+export function matchesAccept(file: File, accept: string): boolean {
+    const patterns = accept
+        .split(',')
+        .map((pattern) => pattern.trim().toLowerCase())
+        .filter(Boolean)
+
+    if (patterns.length === 0) {
+        return true
+    }
+
+    const name = file.name.toLowerCase()
+    const type = file.type.toLowerCase()
+
+    return patterns.some((pattern) => {
+        if (pattern === '*' || pattern === '*/*') {
+            return true
+        }
+        if (pattern.startsWith('.')) {
+            return name.endsWith(pattern)
+        }
+        if (pattern.endsWith('/*')) {
+            return type.startsWith(pattern.slice(0, -1))
+        }
+        return type === pattern
+    })
+}
+
+/**
+ * Format a byte count for error messages
+ */
+function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+    }
+    return `${Math.round(bytes / 1024)} KB`
+}
+
+/**
+ * Validate files against the attachment config.
+ * Returns the accepted files and an error describing the first rejection.
+ *
+ * @param files - Files to add
+ * @param existingCount - Number of files already attached
+ * @param config - Attachment configuration
+ */
+export function validateFiles(
+    files: File[],
+    existingCount: number,
+    config: AttachmentConfig
+): { accepted: File[]; error: Error | null } {
+    const accepted: File[] = []
+    let error: Error | null = null
+
+    for (const file of files) {
+        if (!matchesAccept(file, config.accept)) {
+            error = error || new Error(`File type not allowed: ${file.name}`)
+            continue
+        }
+        if (file.size > config.maxFileSize) {
+            error = error || new Error(`File too large: ${file.name} (max ${formatSize(config.maxFileSize)})`)
+            continue
+        }
+        if (existingCount + accepted.length >= config.maxFiles) {
+            error = error || new Error(`Too many files (max ${config.maxFiles})`)
+            break
+        }
+        accepted.push(file)
+    }
+
+    return { accepted, error }
+}
+
+/**
+ * Create an attachment from a file.
+ * Images get an object URL for previews, which must be revoked with revokeAttachment.
+ */
+export function createAttachment(file: File): AiInputAttachment {
+    attachmentCounter += 1
+    const mimeType = file.type || 'application/octet-stream'
+    return {
+        id: `attachment-${Date.now()}-${attachmentCounter}`,
+        name: file.name,
+        mimeType,
+        size: file.size,
+        data: file,
+        previewUrl: createPreviewUrl(mimeType, file),
+    }
+}
+
+/**
+ * Recreate the preview URL of an attachment restored from a draft
+ */
+export function restoreAttachment(attachment: AiInputAttachment): AiInputAttachment {
+    return {
+        ...attachment,
+        previewUrl: createPreviewUrl(attachment.mimeType, attachment.data),
+    }
+}
+
+/**
+ * Object URL for image previews
+ */
+function createPreviewUrl(mimeType: string, data: Blob): string | undefined {
+    return mimeType.startsWith('image/') && typeof URL.createObjectURL === 'function'
+        ? URL.createObjectURL(data)
+        : undefined
+}
+
+/**
+ * Release the preview object URL of an attachment
+ */
+export function revokeAttachment(attachment: AiInputAttachment): void {
+    if (attachment.previewUrl) {
+        URL.revokeObjectURL(attachment.previewUrl)
+    }
+}
+
+/**
+ * Strip UI-only fields before handing attachments to the transport
+ */
+export function toPayloadAttachment({ previewUrl: _previewUrl, ...attachment }: AiInputAttachment): AiInputAttachment {
+    return attachment
+}
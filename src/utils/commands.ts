@@ -0,0 +1,113 @@
+import type { SlashCommand } from '../types'
+
+/**
+ * Slash command found in the input, with its arguments split off
+ */
+export interface ParsedCommand {
+    command: SlashCommand
+    args: Record<string, string>
+    /** Text after the command name and its arguments */
+    text: string
+}
+
+/**
+ * Read the name typed after a leading slash, and whether whitespace already
+ * follows it. Returns null when the text doesn't start with a slash.
+ */
+export function readCommandName(text: string): { name: string; isComplete: boolean } | null {
+    const match = /^\/(\S*)/.exec(text)
+    if (!match) return null
+    return { name: match[1], isComplete: text.length > match[0].length }
+}
+
+/**
+ * Score a query as a subsequence of a name, case-insensitive.
+ * Prefixes, matches at the start and consecutive characters score higher,
+ * and shorter names win ties. Returns null when the query doesn't match.
+ *
+ * @example
+ * fuzzyScore('tr', 'translate') // prefix - high score
+ * fuzzyScore('tl', 'translate') // subsequence - lower score
+ * fuzzyScore('x', 'translate')  // null
+ */
+export function fuzzyScore(query: string, name: string): number | null {
+    const needle = query.toLowerCase()
+    const haystack = name.toLowerCase()
+
+    let score = haystack.startsWith(needle) ? 10 : 0
+    let from = 0
+    let previous = -2
+    for (const char of needle) {
+        const found = haystack.indexOf(char, from)
+        if (found === -1) return null
+        if (found === 0) score += 2
+        score += found === previous + 1 ? 2 : 1
+        previous = found
+        from = found + 1
+    }
+    return score - haystack.length / 100
+}
+
+/**
+ * Commands matching the name being typed, best first.
+ * Empty when the text isn't a partly typed command name.
+ */
+export function getCommandSuggestions(text: string, commands: SlashCommand[]): SlashCommand[] {
+    const typed = readCommandName(text)
+    if (!typed || typed.isComplete) return []
+    // A bare slash lists every command in the configured order
+    if (!typed.name) return commands.slice()
+
+    return commands
+        .map((command, index) => ({ command, index, score: fuzzyScore(typed.name, command.name) }))
+        .filter((entry): entry is { command: SlashCommand; index: number; score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map((entry) => entry.command)
+}
+
+/**
+ * Find the command typed in the input and split its arguments off.
+ * Returns null for text that doesn't name a known command, so it is sent as typed.
+ */
+export function parseCommand(text: string, commands: SlashCommand[]): ParsedCommand | null {
+    const typed = readCommandName(text)
+    const command = typed ? commands.find((candidate) => candidate.name === typed.name) : undefined
+    if (!typed || !command) return null
+
+    let rest = text.slice(typed.name.length + 1).trimStart()
+    const args: Record<string, string> = {}
+    for (const arg of command.args || []) {
+        const word = /^(\S+)\s*/.exec(rest)
+        if (!word) break
+        args[arg.name] = word[1]
+        rest = rest.slice(word[0].length)
+    }
+    return { command, args, text: rest }
+}
+
+/**
+ * Check the arguments against the command's schema.
+ * Returns an error describing the first problem, or null.
+ */
+export function validateCommand({ command, args }: ParsedCommand): Error | null {
+    for (const arg of command.args || []) {
+        const value = args[arg.name]
+        if (value === undefined) {
+            if (arg.required) {
+                return new Error(`/${command.name} needs a ${arg.name}`)
+            }
+        } else if (arg.options && !arg.options.includes(value)) {
+            return new Error(`Unknown ${arg.name} "${value}" for /${command.name} (expected ${arg.options.join(', ')})`)
+        }
+    }
+    return null
+}
+
+/**
+ * Text with the typed name replaced by the full command name, ready for arguments
+ */
+export function completeCommand(text: string, command: SlashCommand): string {
+    const typed = readCommandName(text)
+    const rest = typed ? text.slice(typed.name.length + 1).trimStart() : text
+    return `/${command.name} ${rest}`
+}
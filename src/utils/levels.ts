@@ -0,0 +1,83 @@
+/**
+ * Bar levels from time-domain data: the peak deviation from silence
+ * in each segment of the frame, amplified by gain and capped at 1
+ *
+ * @param data - Byte time-domain data (128 is silence)
+ * @param bars - Number of bars
+ * @param gain - Amplification
+ */
+export function computeTimeLevels(data: Uint8Array, bars: number, gain: number): number[] {
+    const step = Math.max(1, Math.floor(data.length / bars))
+    const levels: number[] = []
+
+    for (let i = 0; i < bars; i++) {
+        let maxDeviation = 0
+        for (let j = 0; j < step; j++) {
+            const value = data[i * step + j] ?? 128
+            maxDeviation = Math.max(maxDeviation, Math.abs(value - 128))
+        }
+        // Max deviation is 128
+        levels.push(Math.min(1, (maxDeviation / 128) * gain))
+    }
+
+    return levels
+}
+
+/**
+ * Bar levels from frequency data: the average magnitude of each band,
+ * amplified by gain and capped at 1
+ *
+ * @param data - Byte frequency data
+ * @param bars - Number of bars
+ * @param gain - Amplification
+ * @param binCount - Number of leading bins to spread across the bars (default: all)
+ */
+export function computeFrequencyLevels(
+    data: Uint8Array,
+    bars: number,
+    gain: number,
+    binCount: number = data.length
+): number[] {
+    const bins = Math.max(bars, Math.min(binCount, data.length))
+    const levels: number[] = []
+
+    for (let i = 0; i < bars; i++) {
+        const start = Math.floor((i * bins) / bars)
+        const end = Math.max(start + 1, Math.floor(((i + 1) * bins) / bars))
+        let sum = 0
+        for (let j = start; j < end; j++) {
+            sum += data[j] ?? 0
+        }
+        levels.push(Math.min(1, (sum / (end - start) / 255) * gain))
+    }
+
+    return levels
+}
+
+/**
+ * Overall level of a time-domain frame, for scrolling history bars
+ *
+ * @param data - Byte time-domain data (128 is silence)
+ * @param gain - Amplification
+ */
+export function computePeakLevel(data: Uint8Array, gain: number): number {
+    let maxDeviation = 0
+    for (let i = 0; i < data.length; i++) {
+        maxDeviation = Math.max(maxDeviation, Math.abs(data[i] - 128))
+    }
+    return Math.min(1, (maxDeviation / 128) * gain)
+}
+
+/**
+ * Blend new levels into the previous ones (exponential smoothing)
+ *
+ * @param previous - Levels of the previous frame
+ * @param next - Levels of the current frame
+ * @param smoothing - Weight of the previous levels, 0 (none) to 1
+ */
+export function smoothLevels(previous: number[], next: number[], smoothing: number): number[] {
+    if (smoothing <= 0 || previous.length !== next.length) {
+        return next
+    }
+    return next.map((level, i) => previous[i] * smoothing + level * (1 - smoothing))
+}
@@ -0,0 +1,54 @@
+import type { AiInputReference, MentionQuery } from '../types'
+
+/**
+ * Text a mention appears as, e.g. `@Q3 report`
+ */
+export function getMentionToken(reference: Pick<AiInputReference, 'trigger' | 'label'>): string {
+    return `${reference.trigger}${reference.label}`
+}
+
+/**
+ * Find the mention being typed before the caret: a trigger at the start of a
+ * word, followed by the query up to the caret. Returns null when the caret
+ * isn't in such a word, or when the word is an inserted mention (`tokens`).
+ *
+ * @example
+ * findMentionQuery('Compare @q3', 11, ['@']) // { trigger: '@', query: 'q3', start: 8, end: 11 }
+ */
+export function findMentionQuery(
+    text: string,
+    caret: number,
+    triggers: string[],
+    tokens: string[] = []
+): MentionQuery | null {
+    for (let i = Math.min(caret, text.length) - 1; i >= 0; i--) {
+        const char = text[i]
+        if (/\s/.test(char)) return null
+        if (triggers.includes(char) && (i === 0 || /\s/.test(text[i - 1]))) {
+            if (tokens.some((token) => text.startsWith(token, i) && i + token.length >= caret)) {
+                return null
+            }
+            return { trigger: char, query: text.slice(i + 1, caret), start: i, end: caret }
+        }
+    }
+    return null
+}
+
+/**
+ * Replace the typed mention with the token, followed by a space.
+ * Returns the new text and the caret position after the inserted space.
+ */
+export function insertMention(text: string, query: MentionQuery, token: string): { text: string; caret: number } {
+    const after = text.slice(query.end).replace(/^ /, '')
+    return {
+        text: `${text.slice(0, query.start)}${token} ${after}`,
+        caret: query.start + token.length + 1,
+    }
+}
+
+/**
+ * Remove every occurrence of a token from the text, with the space after it
+ */
+export function removeMention(text: string, token: string): string {
+    return text.split(`${token} `).join('').split(token).join('')
+}
@@ -0,0 +1,13 @@
+/**
+ * Read a nested property without assuming the shape of the value
+ *
+ * @example getPath(response, ['results', 0, 'alternatives', 0, 'transcript'])
+ */
+export function getPath(value: unknown, path: (string | number)[]): unknown {
+    return path.reduce<unknown>(
+        (current, key) => current && typeof current === 'object'
+            ? (current as Record<string | number, unknown>)[key]
+            : undefined,
+        value
+    )
+}
@@ -0,0 +1,75 @@
+import type {
+    AiInputAttachment,
+    AiInputAudio,
+    AiInputPayload,
+    AiInputTextPayload,
+    AiInputAudioPayload,
+    AiInputMixedPayload,
+    AiInputReference,
+} from '../types'
+
+/**
+ * Fields shared by all payloads created by the hook
+ */
+export interface PayloadDefaults {
+    metadata?: Record<string, unknown>
+}
+
+/**
+ * Get the user's locale, when available
+ */
+function getLocale(): string | undefined {
+    return typeof navigator !== 'undefined' && navigator.language
+        ? navigator.language
+        : undefined
+}
+
+/**
+ * Create a text payload.
+ * Text with attachments becomes a 'mixed' payload.
+ * Mentioned entities are included as `references` when there are any.
+ */
+export function createTextPayload(
+    text: string,
+    attachments: AiInputAttachment[] = [],
+    defaults: PayloadDefaults = {},
+    references: AiInputReference[] = []
+): AiInputTextPayload | AiInputMixedPayload {
+    return {
+        kind: attachments.length > 0 ? 'mixed' : 'text',
+        text,
+        attachments,
+        locale: getLocale(),
+        metadata: { ...defaults.metadata },
+        ...(references.length > 0 ? { references } : {}),
+    }
+}
+
+/**
+ * Create an audio payload from a recorded Blob
+ */
+export function createAudioPayload(
+    blob: Blob,
+    durationMs: number,
+    defaults: PayloadDefaults = {}
+): AiInputAudioPayload {
+    const audio: AiInputAudio = {
+        blob,
+        mimeType: blob.type || 'audio/webm',
+        durationMs,
+    }
+    return {
+        kind: 'audio',
+        audio,
+        attachments: [],
+        locale: getLocale(),
+        metadata: { ...defaults.metadata },
+    }
+}
+
+/**
+ * Convert a structured payload to the bare input passed in 'legacy' payload mode
+ */
+export function toLegacyInput(payload: AiInputPayload): string | Blob {
+    return payload.kind === 'audio' ? payload.audio.blob : payload.text
+}
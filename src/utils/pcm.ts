@@ -0,0 +1,36 @@
+/**
+ * Resample samples with linear interpolation
+ *
+ * @param samples - Samples at fromRate
+ * @param fromRate - Input sample rate in Hz
+ * @param toRate - Output sample rate in Hz
+ */
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate || samples.length === 0) {
+        return samples
+    }
+
+    const ratio = fromRate / toRate
+    const length = Math.max(1, Math.round(samples.length / ratio))
+    const resampled = new Float32Array(length)
+    for (let i = 0; i < length; i++) {
+        const position = i * ratio
+        const index = Math.floor(position)
+        const next = Math.min(index + 1, samples.length - 1)
+        const fraction = position - index
+        resampled[i] = samples[index] + (samples[next] - samples[index]) * fraction
+    }
+    return resampled
+}
+
+/**
+ * Convert float samples (-1 to 1) to 16-bit PCM, clamping out-of-range values
+ */
+export function floatToPcm16(samples: Float32Array): Int16Array {
+    const pcm = new Int16Array(samples.length)
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]))
+        pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+    }
+    return pcm
+}
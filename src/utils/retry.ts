@@ -0,0 +1,55 @@
+import { TransportError } from '../transports/errors'
+import type { RetryConfig } from '../types'
+
+/**
+ * Default retry predicate - retries anything except aborts
+ * and transport errors that would fail again (auth, invalid requests)
+ */
+export function isRetryableError(error: Error): boolean {
+    if (error instanceof TransportError) {
+        return error.retryable
+    }
+    return error.name !== 'AbortError'
+}
+
+/**
+ * Calculate the delay before the given retry attempt.
+ * Exponential backoff capped at maxDelayMs, randomized by the jitter factor.
+ *
+ * @param config - Retry configuration
+ * @param attempt - Attempt that just failed (1-based)
+ * @param random - Random source in [0, 1), injectable for deterministic results
+ */
+export function getRetryDelay(
+    config: RetryConfig,
+    attempt: number,
+    random: () => number = Math.random
+): number {
+    const base = Math.min(
+        config.maxDelayMs,
+        config.initialDelayMs * Math.pow(config.backoffFactor, attempt - 1)
+    )
+    const jitter = Math.min(1, Math.max(0, config.jitter))
+    return Math.max(0, Math.round(base * (1 + jitter * (random() * 2 - 1))))
+}
+
+/**
+ * Wait for the given time. Resolves early when the signal is aborted.
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve()
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timeout)
+            resolve()
+        }
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
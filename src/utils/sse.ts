@@ -0,0 +1,178 @@
+import { toAsyncIterable } from './stream'
+import { getPath } from './path'
+import type {
+    ServerSentEvent,
+    SSEParseOptions,
+    StreamFormat,
+    StreamTextOptions,
+} from '../types'
+
+/**
+ * Split text chunks into lines, handling \n, \r\n and \r line endings
+ * and lines split across chunk boundaries
+ */
+async function* readLines(source: AsyncIterable<unknown>): AsyncGenerator<string> {
+    let buffer = ''
+    for await (const chunk of source) {
+        buffer += String(chunk)
+        let match: RegExpExecArray | null
+        const lineBreak = /\r\n|\r|\n/g
+        let start = 0
+        while ((match = lineBreak.exec(buffer)) !== null) {
+            // A trailing \r may be the first half of \r\n - wait for more data
+            if (match[0] === '\r' && match.index === buffer.length - 1) break
+            yield buffer.slice(start, match.index)
+            start = match.index + match[0].length
+        }
+        buffer = buffer.slice(start)
+    }
+    if (buffer) yield buffer.replace(/\r$/, '')
+}
+
+/**
+ * Parse a text/event-stream response into events.
+ * Comments (heartbeats) are skipped, multi-line data fields are joined with '\n',
+ * and iteration ends at the done sentinel.
+ *
+ * @param source - Fetch Response or byte stream
+ * @param options - Parser options
+ */
+export async function* parseSSE(
+    source: Response | ReadableStream<Uint8Array>,
+    options: SSEParseOptions = {}
+): AsyncGenerator<ServerSentEvent> {
+    const doneSentinel = options.doneSentinel === undefined ? '[DONE]' : options.doneSentinel
+
+    let event = ''
+    let data: string[] = []
+    let id: string | undefined
+
+    for await (const line of readLines(toAsyncIterable(source))) {
+        // Blank line dispatches the event
+        if (line === '') {
+            if (data.length > 0) {
+                const value = data.join('\n')
+                if (value === doneSentinel) return
+                yield { event: event || 'message', data: value, id }
+            }
+            event = ''
+            data = []
+            continue
+        }
+
+        // Comment, typically a heartbeat
+        if (line.startsWith(':')) continue
+
+        const colon = line.indexOf(':')
+        const field = colon === -1 ? line : line.slice(0, colon)
+        let value = colon === -1 ? '' : line.slice(colon + 1)
+        if (value.startsWith(' ')) value = value.slice(1)
+
+        if (field === 'event') event = value
+        else if (field === 'data') data.push(value)
+        else if (field === 'id') id = value
+    }
+
+    // Flush an event not terminated by a blank line
+    if (data.length > 0) {
+        const value = data.join('\n')
+        if (value !== doneSentinel) {
+            yield { event: event || 'message', data: value, id }
+        }
+    }
+}
+
+/**
+ * Parse a newline-delimited JSON response into values
+ *
+ * @param source - Fetch Response or byte stream
+ */
+export async function* parseNDJSON<T = unknown>(
+    source: Response | ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+    for await (const line of readLines(toAsyncIterable(source))) {
+        if (!line.trim()) continue
+        yield JSON.parse(line) as T
+    }
+}
+
+/**
+ * Paths checked by extractTextDelta, in order
+ */
+const DELTA_PATHS: (string | number)[][] = [
+    ['choices', 0, 'delta', 'content'],
+    ['choices', 0, 'text'],
+    ['delta', 'text'],
+    ['message', 'content'],
+    ['response'],
+    ['text'],
+    ['delta'],
+    ['content'],
+]
+
+/**
+ * Pick a text delta out of common streaming formats:
+ * plain strings, OpenAI chat/completions chunks, Anthropic content deltas,
+ * Ollama chat/generate lines, and { text | delta | content } objects.
+ */
+export function extractTextDelta(data: unknown): string | null {
+    if (typeof data === 'string') return data
+
+    for (const path of DELTA_PATHS) {
+        const delta = getPath(data, path)
+        if (typeof delta === 'string') return delta
+    }
+    return null
+}
+
+/**
+ * Detect the stream format of a Response from its content type
+ *
+ * @returns The format, or null for other content types
+ */
+export function detectStreamFormat(response: unknown): StreamFormat | null {
+    if (typeof Response === 'undefined' || !(response instanceof Response)) {
+        return null
+    }
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream')) return 'sse'
+    if (contentType.includes('ndjson') || contentType.includes('jsonlines')) return 'ndjson'
+    return null
+}
+
+/**
+ * Turn an event stream into an async iterable of text deltas.
+ * The result can be returned from `send` directly.
+ *
+ * @example
+ * send={async (input, { signal }) => streamText(await fetch('/api/chat', { ... , signal }))}
+ *
+ * @param source - Fetch Response or byte stream
+ * @param options - Stream format and delta extraction
+ */
+export async function* streamText(
+    source: Response | ReadableStream<Uint8Array>,
+    options: StreamTextOptions = {}
+): AsyncGenerator<string> {
+    const format = options.format || detectStreamFormat(source) || 'sse'
+    const extractDelta = options.extractDelta || extractTextDelta
+
+    if (format === 'ndjson') {
+        for await (const value of parseNDJSON(source)) {
+            const delta = extractDelta(value)
+            if (delta) yield delta
+        }
+        return
+    }
+
+    for await (const event of parseSSE(source, { doneSentinel: options.doneSentinel })) {
+        let data: unknown = event.data
+        try {
+            data = JSON.parse(event.data)
+        } catch {
+            // Plain text data
+        }
+        const delta = extractDelta(data, event)
+        if (delta) yield delta
+    }
+}
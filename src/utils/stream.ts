@@ -0,0 +1,118 @@
+import type { StreamingResponse } from '../types'
+
+/**
+ * Check whether a value is an async iterable
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+    return value !== null
+        && typeof value === 'object'
+        && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+}
+
+/**
+ * Check whether a value is a ReadableStream
+ */
+function isReadableStream(value: unknown): value is ReadableStream<unknown> {
+    return typeof ReadableStream !== 'undefined' && value instanceof ReadableStream
+}
+
+/**
+ * Check whether a value is a fetch Response
+ */
+function isResponse(value: unknown): value is Response {
+    return typeof Response !== 'undefined' && value instanceof Response
+}
+
+/**
+ * Check whether a send() result should be consumed incrementally.
+ * JSON responses are not treated as streams - they resolve to a single value.
+ */
+export function isStreamingResponse(value: unknown): value is StreamingResponse {
+    if (isResponse(value)) {
+        const contentType = value.headers.get('content-type') || ''
+        return !contentType.includes('application/json')
+    }
+    return isAsyncIterable(value) || isReadableStream(value)
+}
+
+/**
+ * Iterate a ReadableStream with a reader.
+ * Not every browser implements async iteration on ReadableStream yet.
+ */
+async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+    const reader = stream.getReader()
+    try {
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) return
+            yield value
+        }
+    } finally {
+        reader.releaseLock()
+    }
+}
+
+/**
+ * Decode a byte stream into text chunks, handling multi-byte characters
+ * split across chunk boundaries.
+ */
+async function* decodeText(source: AsyncIterable<unknown>): AsyncGenerator<unknown> {
+    const decoder = new TextDecoder()
+    for await (const chunk of source) {
+        if (chunk instanceof Uint8Array) {
+            const text = decoder.decode(chunk, { stream: true })
+            if (text) yield text
+        } else {
+            yield chunk
+        }
+    }
+    const rest = decoder.decode()
+    if (rest) yield rest
+}
+
+/**
+ * Turn any supported streaming response into an async iterable of chunks.
+ * Byte chunks are decoded to strings.
+ */
+export function toAsyncIterable(response: StreamingResponse): AsyncIterable<unknown> {
+    if (isResponse(response)) {
+        if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status}`)
+        }
+        if (!response.body) {
+            return { async *[Symbol.asyncIterator]() { } }
+        }
+        return decodeText(readStream(response.body))
+    }
+
+    if (isReadableStream(response)) {
+        return decodeText(readStream(response))
+    }
+
+    return decodeText(response)
+}
+
+/**
+ * Resolve a non-streaming send() result.
+ * JSON Responses are parsed; everything else is returned as-is.
+ */
+export async function resolveResponse(response: unknown): Promise<unknown> {
+    if (isResponse(response)) {
+        if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status}`)
+        }
+        return response.json()
+    }
+    return response
+}
+
+/**
+ * Assemble received chunks into a single value.
+ * Text chunks are concatenated; anything else is returned as the chunk list.
+ */
+export function assembleChunks(chunks: unknown[]): unknown {
+    if (chunks.every((chunk) => typeof chunk === 'string')) {
+        return chunks.join('')
+    }
+    return chunks
+}
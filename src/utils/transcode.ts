@@ -0,0 +1,86 @@
+import { encodeWav } from './wav'
+import type { AudioTranscodeOptions } from '../types'
+
+const DEFAULT_TRANSCODE_OPTIONS: AudioTranscodeOptions = {
+    sampleRate: 16000,
+    normalize: false,
+}
+
+/**
+ * Average channels into a single mono channel
+ */
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) {
+        return channels[0]
+    }
+
+    const length = channels[0]?.length ?? 0
+    const mono = new Float32Array(length)
+    for (const samples of channels) {
+        for (let i = 0; i < length; i++) {
+            mono[i] += samples[i] / channels.length
+        }
+    }
+    return mono
+}
+
+/**
+ * Scale samples so the loudest one reaches the target peak.
+ * Silent input is returned unchanged.
+ *
+ * @param samples - Samples (-1 to 1)
+ * @param targetPeak - Peak level after scaling (default: 0.95)
+ */
+export function normalizePeak(samples: Float32Array, targetPeak = 0.95): Float32Array {
+    let peak = 0
+    for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]))
+    }
+    if (peak === 0) {
+        return samples
+    }
+
+    const gain = targetPeak / peak
+    const normalized = new Float32Array(samples.length)
+    for (let i = 0; i < samples.length; i++) {
+        normalized[i] = samples[i] * gain
+    }
+    return normalized
+}
+
+/**
+ * Transcode a recording to mono PCM16 WAV.
+ * The Blob is decoded through an OfflineAudioContext running at the
+ * target rate (which resamples it), downmixed to mono, optionally
+ * peak-normalized, and encoded with encodeWav.
+ *
+ * @param blob - Encoded audio, e.g. webm/opus or mp4 from MediaRecorder
+ * @param options - Output sample rate and normalization
+ * @returns WAV Blob
+ */
+export async function transcodeToWav(
+    blob: Blob,
+    options: Partial<AudioTranscodeOptions> = {}
+): Promise<Blob> {
+    if (typeof OfflineAudioContext === 'undefined') {
+        throw new Error('Audio transcoding is not supported in this browser')
+    }
+
+    const { sampleRate, normalize } = { ...DEFAULT_TRANSCODE_OPTIONS, ...options }
+
+    // decodeAudioData resamples to the context's sample rate
+    const context = new OfflineAudioContext(1, 1, sampleRate)
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer())
+
+    const channels: Float32Array[] = []
+    for (let i = 0; i < decoded.numberOfChannels; i++) {
+        channels.push(decoded.getChannelData(i))
+    }
+
+    let samples = downmixToMono(channels)
+    if (normalize) {
+        samples = normalizePeak(samples)
+    }
+
+    return new Blob([encodeWav([samples], decoded.sampleRate)], { type: 'audio/wav' })
+}
@@ -0,0 +1,35 @@
+import { getPath } from './path'
+
+/**
+ * Paths checked by extractTranscriptionText, in order
+ */
+const TRANSCRIPTION_PATHS: (string | number)[][] = [
+    ['text'],
+    ['transcription'],
+    ['transcript'],
+    // Google Speech-to-Text
+    ['results', 0, 'alternatives', 0, 'transcript'],
+    // Deepgram
+    ['results', 'channels', 0, 'alternatives', 0, 'transcript'],
+    // Deepgram live streaming
+    ['channel', 'alternatives', 0, 'transcript'],
+    // Azure Speech
+    ['DisplayText'],
+]
+
+/**
+ * Find the transcription text in common speech-to-text response formats.
+ * Plain string responses (e.g. assembled from a stream) are returned as-is.
+ *
+ * @param response - Response from the audio transport
+ * @returns Transcription text, or null if none was found
+ */
+export function extractTranscriptionText(response: unknown): string | null {
+    if (typeof response === 'string') return response
+
+    for (const path of TRANSCRIPTION_PATHS) {
+        const text = getPath(response, path)
+        if (typeof text === 'string') return text
+    }
+    return null
+}
@@ -0,0 +1,62 @@
+const WAV_HEADER_BYTES = 44
+
+/**
+ * Write an ASCII tag into a DataView
+ */
+function writeTag(view: DataView, offset: number, tag: string): void {
+    for (let i = 0; i < tag.length; i++) {
+        view.setUint8(offset + i, tag.charCodeAt(i))
+    }
+}
+
+/**
+ * Encode PCM samples as a 16-bit WAV file.
+ * Channels are interleaved; samples are clamped to [-1, 1].
+ * Pure - no Web Audio or DOM APIs, so it runs anywhere.
+ *
+ * @param channels - Samples per channel (-1 to 1), all the same length
+ * @param sampleRate - Sample rate in Hz
+ * @returns WAV file contents
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+    const channelCount = channels.length
+    if (channelCount === 0) {
+        throw new Error('At least one channel is required')
+    }
+
+    const frameCount = channels[0].length
+    const blockAlign = channelCount * 2
+    const dataBytes = frameCount * blockAlign
+    const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes)
+    const view = new DataView(buffer)
+
+    // RIFF header
+    writeTag(view, 0, 'RIFF')
+    view.setUint32(4, 36 + dataBytes, true)
+    writeTag(view, 8, 'WAVE')
+
+    // fmt chunk - PCM
+    writeTag(view, 12, 'fmt ')
+    view.setUint32(16, 16, true)
+    view.setUint16(20, 1, true)
+    view.setUint16(22, channelCount, true)
+    view.setUint32(24, sampleRate, true)
+    view.setUint32(28, sampleRate * blockAlign, true)
+    view.setUint16(32, blockAlign, true)
+    view.setUint16(34, 16, true)
+
+    // data chunk
+    writeTag(view, 36, 'data')
+    view.setUint32(40, dataBytes, true)
+
+    let offset = WAV_HEADER_BYTES
+    for (let i = 0; i < frameCount; i++) {
+        for (let channel = 0; channel < channelCount; channel++) {
+            const sample = Math.max(-1, Math.min(1, channels[channel][i] || 0))
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+            offset += 2
+        }
+    }
+
+    return buffer
+}
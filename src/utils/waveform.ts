@@ -0,0 +1,51 @@
+/**
+ * Compute normalized peak levels (0-1) for a static waveform.
+ * Each bar is the loudest sample across channels in its segment,
+ * scaled so the loudest bar is 1.
+ *
+ * @param channels - PCM samples per channel (-1 to 1)
+ * @param bars - Number of bars
+ */
+export function computePeaks(channels: Float32Array[], bars: number): number[] {
+    const length = channels[0]?.length ?? 0
+    if (length === 0 || bars <= 0) {
+        return []
+    }
+
+    const peaks: number[] = []
+    let maxPeak = 0
+    for (let i = 0; i < bars; i++) {
+        const start = Math.floor((i * length) / bars)
+        const end = Math.max(start + 1, Math.floor(((i + 1) * length) / bars))
+        let peak = 0
+        for (const samples of channels) {
+            for (let j = start; j < end && j < length; j++) {
+                peak = Math.max(peak, Math.abs(samples[j]))
+            }
+        }
+        peaks.push(peak)
+        maxPeak = Math.max(maxPeak, peak)
+    }
+
+    return maxPeak > 0 ? peaks.map((peak) => peak / maxPeak) : peaks
+}
+
+/**
+ * Decode a recording and compute its static waveform
+ *
+ * @param blob - Encoded audio
+ * @param bars - Number of bars
+ */
+export async function getWaveformPeaks(blob: Blob, bars: number): Promise<number[]> {
+    const audioContext = new AudioContext()
+    try {
+        const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer())
+        const channels: Float32Array[] = []
+        for (let i = 0; i < buffer.numberOfChannels; i++) {
+            channels.push(buffer.getChannelData(i))
+        }
+        return computePeaks(channels, bars)
+    } finally {
+        audioContext.close()
+    }
+}